@@ -0,0 +1,71 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { loading, readCache, useLoadable } from "../src/loadable"
+import { FakeCacheStore, FakeClock, installFakeClock } from "../src/testing"
+
+describe("cache freshness", () => {
+    let clock: FakeClock
+    let store: FakeCacheStore
+
+    beforeEach(() => {
+        clock = installFakeClock(1_000)
+        store = new FakeCacheStore()
+    })
+    afterEach(() => clock.uninstall())
+
+    it("serves a cached entry and revalidates it by default", async () => {
+        store.seed("user", "cached")
+        const fetcher = jest.fn(async () => "fresh")
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store } }))
+
+        await waitFor(() => expect(result.current).toBe("fresh"))
+        expect(fetcher).toHaveBeenCalledTimes(1)
+        expect((await readCache("user", store))?.value).toBe("fresh")
+    })
+
+    it("skips the fetch while an entry is younger than staleTime", async () => {
+        store.seed("user", "cached")
+        clock.advance(500)
+        const fetcher = jest.fn(async () => "fresh")
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { cache: { key: "user", store, staleTime: 1_000 } })
+        )
+
+        await waitFor(() => expect(result.current).toBe("cached"))
+        expect(fetcher).not.toHaveBeenCalled()
+    })
+
+    it("revalidates an entry older than staleTime", async () => {
+        store.seed("user", "cached")
+        clock.advance(2_000)
+        const fetcher = jest.fn(async () => "fresh")
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { cache: { key: "user", store, staleTime: 1_000 } })
+        )
+
+        await waitFor(() => expect(result.current).toBe("fresh"))
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+
+    it("ignores an entry older than maxAge", async () => {
+        store.seed("user", "cached")
+        clock.advance(2_000)
+        let resolve!: (value: string) => void
+        const fetcher = jest.fn(() => new Promise<string>(r => (resolve = r)))
+        const seen: unknown[] = []
+
+        const { result } = renderHook(() => {
+            const value = useLoadable(fetcher, [], { cache: { key: "user", store, maxAge: 1_000 } })
+            seen.push(value)
+            return value
+        })
+
+        await waitFor(() => expect(fetcher).toHaveBeenCalled())
+        expect(result.current).toBe(loading)
+        resolve("fresh")
+        await waitFor(() => expect(result.current).toBe("fresh"))
+        expect(seen).not.toContain("cached")
+    })
+})
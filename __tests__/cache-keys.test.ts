@@ -0,0 +1,110 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { invalidatePrefix, readCache, serializeCacheKey, useLoadable, writeCache } from "../src/loadable"
+
+describe("serializeCacheKey", () => {
+    it("uses string keys as-is", () => {
+        expect(serializeCacheKey("user/42")).toBe("user/42")
+    })
+
+    it("serializes array keys stably", () => {
+        expect(serializeCacheKey(["todos", { status: "open", page: 2 }])).toBe(
+            '["todos",{"page":2,"status":"open"}]'
+        )
+        expect(serializeCacheKey(["todos", { page: 2, status: "open" }])).toBe(
+            serializeCacheKey(["todos", { status: "open", page: 2 }])
+        )
+        expect(serializeCacheKey(["ids", new Set([2, 1]), BigInt(10)])).toBe('["ids",[1,2],"10n"]')
+    })
+
+    it("hashes long parts", () => {
+        const key = serializeCacheKey(["search", "x".repeat(100)])
+        expect(key).toMatch(/^\["search","#[0-9a-z]+"\]$/)
+        expect(serializeCacheKey(["search", "x".repeat(100)])).toBe(key)
+        expect(serializeCacheKey(["search", "y".repeat(100)])).not.toBe(key)
+    })
+
+    it("keeps string keys from colliding with array keys", () => {
+        expect(serializeCacheKey('["user",1]')).not.toBe(serializeCacheKey(["user", 1]))
+        expect(serializeCacheKey('\\["user",1]')).not.toBe(serializeCacheKey('["user",1]'))
+    })
+
+    it("throws a TypeError for a key that contains itself", () => {
+        const filters: Record<string, unknown> = { status: "open" }
+        filters.self = filters
+
+        expect(() => serializeCacheKey(["todos", filters])).toThrow(TypeError)
+        // Repeated, but not cyclic
+        const shared = { page: 1 }
+        expect(serializeCacheKey([shared, shared])).toBe('[{"page":1},{"page":1}]')
+    })
+})
+
+describe("array keys", () => {
+    it("are shared by the hooks and the cache helpers", async () => {
+        await writeCache(["user", 42], "cached Ada", "memory")
+        const fetcher = jest.fn(async () => "fetched Ada")
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [42], { cache: { key: id => ["user", id], store: "memory", staleTime: 60_000 } })
+        )
+
+        await waitFor(() => expect(result.current).toBe("cached Ada"))
+        expect(fetcher).not.toHaveBeenCalled()
+        expect((await readCache(["user", 42], "memory"))?.value).toBe("cached Ada")
+    })
+})
+
+describe("invalidatePrefix", () => {
+    const keys = ["user", "users", "user/1", ["user", 1], ["user", 10, "posts"], ["team", "user"], '["user",2]']
+
+    beforeEach(async () => {
+        await Promise.all(keys.map(key => writeCache(key, "cached", "memory")))
+    })
+
+    async function remaining() {
+        const left = await Promise.all(keys.map(async key => ((await readCache(key, "memory")) ? key : undefined)))
+        return left.filter(key => key !== undefined)
+    }
+
+    it("matches string keys, and array keys through their first part, by a string prefix", async () => {
+        await invalidatePrefix("user/")
+        expect(await remaining()).toEqual([
+            "user",
+            "users",
+            ["user", 1],
+            ["user", 10, "posts"],
+            ["team", "user"],
+            '["user",2]',
+        ])
+
+        await invalidatePrefix("user")
+        expect(await remaining()).toEqual([["team", "user"], '["user",2]'])
+    })
+
+    it("matches array keys part by part, by an array prefix", async () => {
+        await invalidatePrefix(["user", 1])
+        expect(await remaining()).toEqual([
+            "user",
+            "users",
+            "user/1",
+            ["user", 10, "posts"],
+            ["team", "user"],
+            '["user",2]',
+        ])
+
+        await invalidatePrefix([])
+        expect(await remaining()).toEqual(["user", "users", "user/1", '["user",2]'])
+    })
+
+    it("matches string keys that look like arrays as strings", async () => {
+        await invalidatePrefix('["user"')
+        expect(await remaining()).toEqual([
+            "user",
+            "users",
+            "user/1",
+            ["user", 1],
+            ["user", 10, "posts"],
+            ["team", "user"],
+        ])
+    })
+})
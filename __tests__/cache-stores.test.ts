@@ -0,0 +1,187 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { MemoryCacheStore, readCache, useLoadable, WebStorageCacheStore, writeCache } from "../src/loadable"
+
+describe("MemoryCacheStore", () => {
+    it("stores, lists, deletes and clears entries", async () => {
+        const store = new MemoryCacheStore()
+        await store.set("a", { value: 1, timestamp: 1 })
+        await store.set("b", { value: 2, timestamp: 2 })
+
+        expect(await store.get("a")).toEqual({ value: 1, timestamp: 1 })
+        expect((await store.keys()).sort()).toEqual(["a", "b"])
+
+        await store.delete("a")
+        expect(await store.get("a")).toBeUndefined()
+
+        await store.clear()
+        expect(await store.keys()).toEqual([])
+    })
+
+    it("evicts the least recently used entries past maxEntries", async () => {
+        const store = new MemoryCacheStore({ maxEntries: 2 })
+        await store.set("a", { value: 1, timestamp: 1 })
+        await store.set("b", { value: 2, timestamp: 2 })
+        // Reading "a" makes "b" the least recently used
+        await store.get("a")
+        await store.set("c", { value: 3, timestamp: 3 })
+
+        expect(await store.keys()).toEqual(["a", "c"])
+    })
+
+    it("evicts entries until they fit in maxBytes", async () => {
+        const store = new MemoryCacheStore({ maxBytes: 300 })
+        await store.set("small", { value: "x", timestamp: 1 })
+        await store.set("large", { value: "x".repeat(60), timestamp: 2 })
+        expect(await store.keys()).toEqual(["small", "large"])
+
+        await store.set("larger", { value: "x".repeat(70), timestamp: 3 })
+        expect(await store.keys()).toEqual(["larger"])
+    })
+})
+
+/** A `Storage` that only holds `capacity` characters, like a browser's quota. */
+class LimitedStorage implements Storage {
+    private readonly items = new Map<string, string>()
+
+    constructor(private readonly capacity: number) {}
+
+    get length() {
+        return this.items.size
+    }
+    key(index: number) {
+        return [...this.items.keys()][index] ?? null
+    }
+    getItem(key: string) {
+        return this.items.get(key) ?? null
+    }
+    setItem(key: string, value: string) {
+        const used = [...this.items].reduce((sum, [k, v]) => (k === key ? sum : sum + v.length), 0)
+        if (used + value.length > this.capacity) {
+            throw new DOMException("The quota has been exceeded", "QuotaExceededError")
+        }
+        this.items.set(key, value)
+    }
+    removeItem(key: string) {
+        this.items.delete(key)
+    }
+    clear() {
+        this.items.clear()
+    }
+}
+
+describe("WebStorageCacheStore when the storage is full", () => {
+    const entry = (timestamp: number) => ({ value: "x".repeat(20), timestamp })
+
+    it("evicts our oldest entries to make room, leaving other keys alone", async () => {
+        const storage = new LimitedStorage(140)
+        const store = new WebStorageCacheStore(() => storage)
+        storage.setItem("unrelated", "kept")
+        await store.set("newer", entry(20))
+        await store.set("older", entry(10))
+        await store.set("newest", entry(30))
+
+        expect((await store.keys()).sort()).toEqual(["newer", "newest"])
+        expect(storage.getItem("unrelated")).toBe("kept")
+    })
+
+    it("evicts unreadable entries first", async () => {
+        const storage = new LimitedStorage(145)
+        const store = new WebStorageCacheStore(() => storage)
+        await store.set("old", entry(10))
+        storage.setItem("loadable:corrupt", "{ not json")
+        storage.setItem("loadable:raw", JSON.stringify("not an entry"))
+        await store.set("newer", entry(20))
+
+        await store.set("newest", entry(30))
+
+        expect((await store.keys()).sort()).toEqual(["newer", "newest", "old"])
+    })
+
+    it("rethrows once nothing of ours is left to evict", async () => {
+        const storage = new LimitedStorage(40)
+        const store = new WebStorageCacheStore(() => storage)
+        storage.setItem("unrelated", "x".repeat(30))
+
+        await expect(store.set("user", entry(10))).rejects.toMatchObject({ name: "QuotaExceededError" })
+        expect(storage.getItem("unrelated")).not.toBeNull()
+    })
+})
+
+describe("WebStorageCacheStore", () => {
+    it("namespaces its keys with the prefix", async () => {
+        const store = new WebStorageCacheStore(() => window.sessionStorage, "test:")
+        window.sessionStorage.setItem("unrelated", "kept")
+
+        await store.set("user", { value: { name: "Ada" }, timestamp: 5 })
+
+        expect(JSON.parse(window.sessionStorage.getItem("test:user")!)).toEqual({
+            value: { name: "Ada" },
+            timestamp: 5,
+        })
+        expect(await store.keys()).toEqual(["user"])
+
+        await store.clear()
+        expect(window.sessionStorage.getItem("test:user")).toBeNull()
+        expect(window.sessionStorage.getItem("unrelated")).toBe("kept")
+        window.sessionStorage.clear()
+    })
+
+    it("backs the built-in localStorage store", async () => {
+        await writeCache("todos", ["a"])
+
+        expect(window.localStorage.getItem("loadable:todos")).not.toBeNull()
+        expect((await readCache("todos"))?.value).toEqual(["a"])
+    })
+
+    it("moves a value kept under the legacy prefix when it's read, as a stale entry", async () => {
+        const store = new WebStorageCacheStore(() => window.sessionStorage, "test:", "")
+        window.sessionStorage.setItem("user", JSON.stringify({ name: "Ada" }))
+        window.sessionStorage.setItem("unreadable", "{ not json")
+
+        expect(await store.get("user")).toEqual({ value: { name: "Ada" }, timestamp: 0 })
+        expect(window.sessionStorage.getItem("user")).toBeNull()
+        expect(JSON.parse(window.sessionStorage.getItem("test:user")!)).toEqual({
+            value: { name: "Ada" },
+            timestamp: 0,
+        })
+
+        expect(await store.get("unreadable")).toBeUndefined()
+        expect(window.sessionStorage.getItem("unreadable")).toBe("{ not json")
+        window.sessionStorage.clear()
+    })
+
+    it("deletes the legacy value along with the entry", async () => {
+        const store = new WebStorageCacheStore(() => window.sessionStorage, "test:", "")
+        window.sessionStorage.setItem("user", JSON.stringify("Ada"))
+
+        await store.delete("user")
+
+        expect(await store.get("user")).toBeUndefined()
+        expect(window.sessionStorage.length).toBe(0)
+    })
+
+    it("moves values the built-in localStorage store kept under bare keys in version 2", async () => {
+        window.localStorage.setItem("todos", JSON.stringify(["a"]))
+        const fetcher = jest.fn(async () => ["a", "b"])
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: "todos" }))
+
+        await waitFor(() => expect(result.current).toEqual(["a", "b"]))
+        expect(window.localStorage.getItem("todos")).toBeNull()
+        expect(JSON.parse(window.localStorage.getItem("loadable:todos")!).value).toEqual(["a", "b"])
+    })
+})
+
+describe("custom stores", () => {
+    it("are used by the hooks for reads and writes", async () => {
+        const store = new MemoryCacheStore()
+        await store.set("user", { value: "cached", timestamp: Date.now() })
+        const fetcher = jest.fn(async () => "fetched")
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store } }))
+
+        await waitFor(() => expect(result.current).toBe("fetched"))
+        expect((await store.get("user"))?.value).toBe("fetched")
+        expect(window.localStorage.length).toBe(0)
+    })
+})
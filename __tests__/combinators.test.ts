@@ -0,0 +1,82 @@
+import {
+    all,
+    allObject,
+    allSettled,
+    firstLoaded,
+    flatMap,
+    Loadable,
+    loading,
+    LoadError,
+    LoadingToken,
+    map,
+    mapError,
+    recover,
+} from "../src/loadable"
+
+const failure = new LoadError(new Error("offline"))
+const token = new LoadingToken(1, 1)
+
+describe("map / flatMap", () => {
+    it("transform a loaded value, and pass loading and failures through", () => {
+        expect(map(2 as Loadable<number>, n => n * 2)).toBe(4)
+        expect(map(token as Loadable<number>, n => n * 2)).toBe(token)
+        expect(map(failure as Loadable<number>, n => n * 2)).toBe(failure)
+
+        expect(flatMap(2 as Loadable<number>, () => loading)).toBe(loading)
+        expect(flatMap(2 as Loadable<number>, n => n + 1)).toBe(3)
+        expect(flatMap(failure as Loadable<number>, n => n + 1)).toBe(failure)
+    })
+})
+
+describe("mapError / recover", () => {
+    it("only touch failures", () => {
+        const friendly = new LoadError(failure, "Couldn’t load your profile")
+        expect(mapError(failure as Loadable<string>, () => friendly)).toBe(friendly)
+        expect(mapError("Ada" as Loadable<string>, () => friendly)).toBe("Ada")
+        expect(mapError(loading as Loadable<string>, () => friendly)).toBe(loading)
+
+        expect(recover(failure as Loadable<string>, e => `fallback: ${e.message}`)).toBe("fallback: offline")
+        expect(recover("Ada" as Loadable<string>, () => "fallback")).toBe("Ada")
+        expect(recover(loading as Loadable<string>, () => "fallback")).toBe(loading)
+    })
+})
+
+describe("all / allObject", () => {
+    it("combine loaded values, in order or by key", () => {
+        expect(all("Ada" as Loadable<string>, 36 as Loadable<number>)).toEqual(["Ada", 36])
+        expect(allObject({ name: "Ada" as Loadable<string>, age: 36 as Loadable<number> })).toEqual({
+            name: "Ada",
+            age: 36,
+        })
+    })
+
+    it("are loading while any item hasn't loaded, failures included", () => {
+        expect(all("Ada", token)).toBe(loading)
+        expect(all("Ada", failure)).toBe(loading)
+        expect(allObject({ name: "Ada", age: failure })).toBe(loading)
+    })
+})
+
+describe("allSettled", () => {
+    it("is loading while any item is loading", () => {
+        expect(allSettled("Ada", token, failure)).toBe(loading)
+    })
+
+    it("keeps each item's outcome once all have settled", () => {
+        expect(allSettled("Ada" as Loadable<string>, failure as Loadable<number>)).toEqual(["Ada", failure])
+    })
+})
+
+describe("firstLoaded", () => {
+    it("returns the first loaded value in argument order", () => {
+        expect(firstLoaded(loading as Loadable<string>, "fresh", "cached")).toBe("fresh")
+        expect(firstLoaded(failure as Loadable<string>, "cached")).toBe("cached")
+    })
+
+    it("is loading while none has loaded but some still load, then the first failure", () => {
+        const second = new LoadError("also offline")
+        expect(firstLoaded(failure, token)).toBe(loading)
+        expect(firstLoaded(failure, second)).toBe(failure)
+        expect(firstLoaded()).toBe(loading)
+    })
+})
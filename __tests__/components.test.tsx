@@ -0,0 +1,92 @@
+import { act, render, screen } from "@testing-library/react"
+import React from "react"
+import { Loadable, LoadableBoundary, Loaded, LoadError, loading } from "../src/loadable"
+
+describe("Loaded", () => {
+    it("renders the loading fallback, then the loaded value", () => {
+        const { rerender } = render(
+            <Loaded value={loading as Loadable<string>} loading="loading">
+                {name => <span>{name}</span>}
+            </Loaded>
+        )
+        expect(screen.getByText("loading")).toBeTruthy()
+
+        rerender(
+            <Loaded value={"Ada" as Loadable<string>} loading="loading">
+                {name => <span>{name}</span>}
+            </Loaded>
+        )
+        expect(screen.getByText("Ada")).toBeTruthy()
+    })
+
+    it("shares its name with the Loaded type", () => {
+        const user: Loadable<string> = "Ada"
+        const renderName = (name: Loaded<Loadable<string>>) => <span>{name.toUpperCase()}</span>
+
+        render(<Loaded value={user}>{renderName}</Loaded>)
+        expect(screen.getByText("ADA")).toBeTruthy()
+    })
+
+    it("renders a failure through the error fallback", () => {
+        render(
+            <Loaded value={new LoadError(new Error("offline"))} error={e => `failed: ${e.message}`}>
+                {() => "loaded"}
+            </Loaded>
+        )
+        expect(screen.getByText("failed: offline")).toBeTruthy()
+    })
+
+    it("waits for every value, but shows the first failure straight away", () => {
+        const { rerender } = render(
+            <Loaded values={["Ada", loading as Loadable<number>]} loading="loading">
+                {(name, age) => `${name} is ${age}`}
+            </Loaded>
+        )
+        expect(screen.getByText("loading")).toBeTruthy()
+
+        rerender(
+            <Loaded values={["Ada", 36]} loading="loading">
+                {(name, age) => `${name} is ${age}`}
+            </Loaded>
+        )
+        expect(screen.getByText("Ada is 36")).toBeTruthy()
+
+        rerender(
+            <Loaded values={[loading, new LoadError("nope")]} loading="loading" error="failed">
+                {() => "loaded"}
+            </Loaded>
+        )
+        expect(screen.getByText("failed")).toBeTruthy()
+    })
+
+    it("takes missing fallbacks from the nearest LoadableBoundary", () => {
+        render(
+            <LoadableBoundary loading={<span>outer loading</span>} error={<span>outer error</span>}>
+                <LoadableBoundary loading={<span>inner loading</span>}>
+                    <Loaded value={loading}>{() => "loaded"}</Loaded>
+                    <Loaded value={new LoadError("nope")}>{() => "loaded"}</Loaded>
+                    <Loaded value={loading} loading={<span>own loading</span>}>
+                        {() => "loaded"}
+                    </Loaded>
+                </LoadableBoundary>
+            </LoadableBoundary>
+        )
+        expect(screen.getByText("inner loading")).toBeTruthy()
+        expect(screen.getByText("outer error")).toBeTruthy()
+        expect(screen.getByText("own loading")).toBeTruthy()
+    })
+
+    it("keeps the loading fallback up for minLoadingTime once shown", async () => {
+        const view = (value: Loadable<string>) => (
+            <Loaded value={value} loading="loading" minLoadingTime={50}>
+                {name => name}
+            </Loaded>
+        )
+        const { rerender } = render(view(loading))
+        rerender(view("Ada"))
+        expect(screen.getByText("loading")).toBeTruthy()
+
+        await act(() => new Promise(resolve => setTimeout(resolve, 80)))
+        expect(screen.getByText("Ada")).toBeTruthy()
+    })
+})
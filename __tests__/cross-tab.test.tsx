@@ -0,0 +1,180 @@
+import { act, render, renderHook, screen, waitFor } from "@testing-library/react"
+import React, { Suspense } from "react"
+import {
+    invalidate,
+    setCached,
+    syncCacheAcrossTabs,
+    useInfiniteLoadable,
+    useLoadable,
+    useSuspenseLoadable,
+    writeCache,
+} from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore } from "../src/testing"
+
+/** jsdom has no `BroadcastChannel`: this one delivers between instances sharing a name, like tabs would. */
+class FakeBroadcastChannel {
+    static open: FakeBroadcastChannel[] = []
+    onmessage: ((message: { data: unknown }) => void) | null = null
+
+    constructor(readonly name: string) {
+        FakeBroadcastChannel.open.push(this)
+    }
+
+    postMessage(data: unknown) {
+        // Like structured cloning, functions can't be posted
+        const withFunctions = JSON.stringify(data, (_, value) => (typeof value === "function" ? {} : value))
+        if (withFunctions !== JSON.stringify(data)) {
+            throw new DOMException("The object could not be cloned", "DataCloneError")
+        }
+        const cloned = JSON.parse(JSON.stringify(data))
+        FakeBroadcastChannel.open
+            .filter(channel => channel !== this && channel.name === this.name)
+            .forEach(channel => queueMicrotask(() => channel.onmessage?.({ data: cloned })))
+    }
+
+    close() {
+        FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(channel => channel !== this)
+    }
+}
+
+describe("syncCacheAcrossTabs over a BroadcastChannel", () => {
+    let stop: () => void
+    /** The channel of another tab. */
+    let otherTab: FakeBroadcastChannel
+    let received: unknown[]
+
+    beforeEach(() => {
+        ;(globalThis as any).BroadcastChannel = FakeBroadcastChannel
+        stop = syncCacheAcrossTabs()
+        otherTab = new FakeBroadcastChannel("loadable")
+        received = []
+        otherTab.onmessage = message => received.push(message.data)
+    })
+    afterEach(() => {
+        stop()
+        otherTab.close()
+        delete (globalThis as any).BroadcastChannel
+    })
+
+    it("posts cache writes and invalidations to the other tabs", async () => {
+        await setCached("user", "Ada")
+        await invalidate("user")
+
+        await waitFor(() =>
+            expect(received).toEqual([
+                { type: "set", key: "user", value: "Ada" },
+                { type: "invalidate", key: "user" },
+            ])
+        )
+    })
+
+    it("only posts a write once it has succeeded", async () => {
+        const store = new FakeCacheStore()
+        store.failWith = new Error("quota exceeded")
+
+        await expect(setCached("user", "Ada", store)).rejects.toThrow("quota exceeded")
+        await act(() => Promise.resolve())
+        expect(received).toEqual([])
+        // Invalidations in later tests still reach this store
+        store.failWith = undefined
+    })
+
+    it("posts a value it can't clone as a change to re-read", async () => {
+        const store = new FakeCacheStore()
+        await setCached("formatter", { format: () => "Ada" }, store)
+
+        await waitFor(() => expect(received).toEqual([{ type: "changed", key: "formatter" }]))
+    })
+
+    it("updates hooks with a value set in another tab, and refetches on invalidation", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store: "memory" } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.resolve("Ada")
+        await waitFor(() => expect(result.current).toBe("Ada"))
+
+        otherTab.postMessage({ type: "set", key: "user", value: "Grace" })
+        await waitFor(() => expect(result.current).toBe("Grace"))
+
+        otherTab.postMessage({ type: "invalidate", key: "user" })
+        await waitFor(() => expect(fetcher.calls).toHaveLength(2))
+    })
+
+    it("makes an infinite list re-read its pages on a change, without refetching", async () => {
+        const store = new FakeCacheStore()
+        const fetchPage = jest.fn(async () => "page 0")
+        const { result } = renderHook(() =>
+            useInfiniteLoadable(fetchPage, () => undefined, [], { cache: { key: "feed", store } })
+        )
+        await waitFor(() => expect(result.current[0]).toEqual(["page 0"]))
+
+        await writeCache("feed", ["page 0 (edited)"], store)
+        otherTab.postMessage({ type: "changed", key: "feed" })
+
+        await waitFor(() => expect(result.current[0]).toEqual(["page 0 (edited)"]))
+        expect(fetchPage).toHaveBeenCalledTimes(1)
+    })
+
+    it("makes a suspense hook re-read its value on a change, without suspending again", async () => {
+        const store = new FakeCacheStore()
+        const fetcher = jest.fn(async () => "Ada")
+        function Name() {
+            return <span>{useSuspenseLoadable(fetcher, [], { cache: { key: "name", store } })}</span>
+        }
+
+        await act(async () => {
+            render(
+                <Suspense fallback={<span>loading</span>}>
+                    <Name />
+                </Suspense>
+            )
+        })
+        await screen.findByText("Ada")
+
+        await writeCache("name", "Grace", store)
+        otherTab.postMessage({ type: "changed", key: "name" })
+
+        await screen.findByText("Grace")
+        expect(screen.queryByText("loading")).toBeNull()
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("syncCacheAcrossTabs without a BroadcastChannel", () => {
+    let stop: () => void
+    beforeEach(() => {
+        stop = syncCacheAcrossTabs()
+    })
+    afterEach(() => stop())
+
+    /** Fires the `storage` event another tab's write to localStorage would. */
+    function storageEvent(key: string, newValue: string | null) {
+        window.dispatchEvent(new StorageEvent("storage", { key, newValue, storageArea: window.localStorage }))
+    }
+
+    it("re-reads localStorage entries other tabs change, and refetches ones they remove", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user" } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.resolve("Ada")
+        await waitFor(() => expect(result.current).toBe("Ada"))
+
+        await writeCache("user", "Grace")
+        act(() => storageEvent("loadable:user", window.localStorage.getItem("loadable:user")))
+        await waitFor(() => expect(result.current).toBe("Grace"))
+
+        window.localStorage.removeItem("loadable:user")
+        act(() => storageEvent("loadable:user", null))
+        await waitFor(() => expect(fetcher.calls.length).toBeGreaterThan(1))
+    })
+
+    it("ignores keys outside its prefix", async () => {
+        const fetcher = createControllableFetcher<string>()
+        renderHook(() => useLoadable(fetcher, [], { cache: { key: "user" } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        act(() => storageEvent("user", null))
+        await act(() => Promise.resolve())
+        expect(fetcher.calls).toHaveLength(1)
+    })
+})
@@ -0,0 +1,60 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { useLoadable } from "../src/loadable"
+import { createControllableFetcher } from "../src/testing"
+
+describe("request deduplication", () => {
+    it("shares one fetch between hooks mounting with the same key", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const options = { cache: { key: "shared", store: "memory" as const } }
+
+        const first = renderHook(() => useLoadable(fetcher, [], options))
+        const second = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        fetcher.resolve("value")
+        await waitFor(() => expect(first.result.current).toBe("value"))
+        await waitFor(() => expect(second.result.current).toBe("value"))
+        expect(fetcher.calls).toHaveLength(1)
+    })
+
+    it("keeps the shared fetch going while another hook still waits for it", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const options = { cache: { key: "detach", store: "memory" as const } }
+
+        const leaving = renderHook(() => useLoadable(fetcher, [], options))
+        const staying = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        leaving.unmount()
+        expect(fetcher.lastCall!.aborted).toBe(false)
+
+        fetcher.resolve("value")
+        await waitFor(() => expect(staying.result.current).toBe("value"))
+    })
+
+    it("aborts the shared fetch once every hook has left", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const options = { cache: { key: "abandoned", store: "memory" as const } }
+
+        const first = renderHook(() => useLoadable(fetcher, [], options))
+        const second = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        first.unmount()
+        second.unmount()
+        expect(fetcher.lastCall!.aborted).toBe(true)
+
+        // The next hook starts afresh instead of joining the aborted fetch
+        renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(2))
+    })
+
+    it("doesn't share fetches between different keys", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        renderHook(() => useLoadable(fetcher, [], { cache: { key: "a", store: "memory" } }))
+        renderHook(() => useLoadable(fetcher, [], { cache: { key: "b", store: "memory" } }))
+
+        await waitFor(() => expect(fetcher.calls).toHaveLength(2))
+    })
+})
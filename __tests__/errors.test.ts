@@ -0,0 +1,162 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import {
+    AbortedLoadError,
+    HttpLoadError,
+    isAbortedLoadError,
+    isHttpLoadError,
+    isTimeoutLoadError,
+    isValidationLoadError,
+    loadFailed,
+    loading,
+    LoadError,
+    subscribeToLoadEvents,
+    TimeoutLoadError,
+    useLoadable,
+    useInfiniteLoadable,
+    useLoadableWithCleanup,
+    useMutation,
+    useStreamLoadable,
+    ValidationLoadError,
+} from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore } from "../src/testing"
+
+function abortError() {
+    return new DOMException("The operation was aborted", "AbortError")
+}
+
+describe("load errors", () => {
+    it("keeps a thrown LoadError subclass as it is", async () => {
+        const { result } = renderHook(() =>
+            useLoadable(async () => Promise.reject(new HttpLoadError(404, "missing")), [])
+        )
+
+        await waitFor(() => expect(loadFailed(result.current)).toBe(true))
+        expect(isHttpLoadError(result.current)).toBe(true)
+        expect((result.current as HttpLoadError).status).toBe(404)
+        expect((result.current as HttpLoadError).message).toBe("The request failed with status 404")
+    })
+
+    it("wraps anything else in a LoadError, keeping the cause", async () => {
+        const cause = new Error("offline")
+        const { result } = renderHook(() => useLoadable(async () => Promise.reject(cause), []))
+
+        await waitFor(() => expect(result.current).toBeInstanceOf(LoadError))
+        expect((result.current as LoadError).cause).toBe(cause)
+        expect((result.current as LoadError).message).toBe("offline")
+    })
+
+    it("has a type guard per subclass", () => {
+        const errors = [
+            new HttpLoadError(500),
+            new ValidationLoadError(new Error("bad shape")),
+            new TimeoutLoadError(100),
+            new AbortedLoadError(),
+        ]
+        const guards = [isHttpLoadError, isValidationLoadError, isTimeoutLoadError, isAbortedLoadError]
+
+        guards.forEach((guard, i) => {
+            expect(errors.map(error => guard(error))).toEqual(errors.map((_, j) => i === j))
+        })
+    })
+})
+
+describe("aborts", () => {
+    it("settle the hook to an AbortedLoadError when something else aborts the fetch", async () => {
+        const onError = jest.fn()
+        const events: string[] = []
+        const unsubscribe = subscribeToLoadEvents(event => events.push(event.type))
+        const cause = abortError()
+
+        // Like a fetcher aborting a request of its own
+        const { result } = renderHook(() => useLoadable(async () => Promise.reject(cause), [], { onError }))
+
+        await waitFor(() => expect(isAbortedLoadError(result.current)).toBe(true))
+        expect(loadFailed(result.current)).toBe(true)
+        expect((result.current as AbortedLoadError).cause).toBe(cause)
+        expect(onError).toHaveBeenCalledWith(cause)
+        expect(events).toEqual(["start", "error"])
+        unsubscribe()
+    })
+
+    it("leave a value already on screen in place when the hook cancels the load", async () => {
+        const store = new FakeCacheStore()
+        store.seed("user", "stale")
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() =>
+            useLoadableWithCleanup(fetcher, [], { cache: { key: "user", store } })
+        )
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        await waitFor(() => expect(result.current[0]).toBe("stale"))
+
+        act(() => result.current[1]())
+        await act(() => Promise.resolve())
+        expect(result.current[0]).toBe("stale")
+    })
+
+    it("fail a stream or an infinite list aborted by something else", async () => {
+        const onError = jest.fn()
+        const stream = renderHook(() =>
+            useStreamLoadable(async () => Promise.reject(abortError()), [], { onError })
+        )
+        const list = renderHook(() =>
+            useInfiniteLoadable(async () => Promise.reject(abortError()), () => undefined, [], { onError })
+        )
+
+        await waitFor(() => expect(isAbortedLoadError(stream.result.current[0])).toBe(true))
+        await waitFor(() => expect(isAbortedLoadError(list.result.current[0])).toBe(true))
+        expect(onError).toHaveBeenCalledTimes(2)
+    })
+
+    it("keep the current state on cancel()", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadableWithCleanup(fetcher, []))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        act(() => result.current[1]())
+        expect(fetcher.lastCall!.aborted).toBe(true)
+        await act(() => Promise.resolve())
+        expect(result.current[0]).toBe(loading)
+    })
+
+    it("resolve a mutation with undefined when the component unmounts", async () => {
+        const onError = jest.fn()
+        const { result, unmount } = renderHook(() =>
+            useMutation(
+                (_: string, signal: AbortSignal) =>
+                    new Promise<string>((_resolve, reject) => {
+                        // Like `fetch`, reject straight away if the signal has already aborted
+                        if (signal.aborted) reject(signal.reason)
+                        signal.addEventListener("abort", () => reject(signal.reason))
+                    }),
+                { onError }
+            )
+        )
+
+        let outcome!: Promise<unknown>
+        act(() => {
+            outcome = result.current[1]("todo")
+        })
+        unmount()
+
+        await expect(outcome).resolves.toBeUndefined()
+        expect(onError).not.toHaveBeenCalled()
+    })
+
+    it("fail a mutation something else aborts, rolling it back", async () => {
+        const onError = jest.fn()
+        const { result } = renderHook(() =>
+            useMutation(async (_: string) => Promise.reject(abortError()), { onMutate: () => "previous", onError })
+        )
+
+        let outcome: unknown = "unset"
+        await act(async () => {
+            outcome = await result.current[1]("todo")
+        })
+
+        expect(outcome).toBeInstanceOf(AbortedLoadError)
+        expect(result.current[0]).toBe(outcome)
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: "AbortError" }), "todo", "previous")
+    })
+})
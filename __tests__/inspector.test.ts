@@ -0,0 +1,101 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { getActiveLoads, LoadError, LoadEvent, setCached, subscribeToLoadEvents, useLoadable } from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore, FakeClock, installFakeClock } from "../src/testing"
+
+describe("inspector", () => {
+    let clock: FakeClock
+    let events: LoadEvent[]
+    let unsubscribe: () => void
+
+    beforeEach(() => {
+        clock = installFakeClock(1_000)
+        events = []
+        unsubscribe = subscribeToLoadEvents(event => events.push(event))
+    })
+    afterEach(() => {
+        unsubscribe()
+        clock.uninstall()
+    })
+
+    it("reports a load's start and success, with its label, key and duration", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const store = new FakeCacheStore()
+
+        renderHook(() => useLoadable(fetcher, ["ada"], { label: "profile", cache: { key: "user", store } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        expect(getActiveLoads()).toEqual([
+            { id: expect.any(Number), label: "profile", key: "user", dependencies: ["ada"], startTime: 1_000 },
+        ])
+        const start = events.find(event => event.type === "start")
+        expect(start).toMatchObject({ label: "profile", key: "user", dependencies: ["ada"], startTime: 1_000 })
+
+        clock.advance(250)
+        fetcher.resolve("Ada")
+        await waitFor(() => expect(events.map(event => event.type)).toContain("success"))
+
+        expect(events.find(event => event.type === "success")).toMatchObject({
+            id: (start as { id: number }).id,
+            label: "profile",
+            duration: 250,
+        })
+        expect(getActiveLoads()).toEqual([])
+    })
+
+    it("reports a failed load with its error", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        renderHook(() => useLoadable(fetcher, []))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.reject(new Error("offline"))
+
+        await waitFor(() => expect(events.map(event => event.type)).toEqual(["start", "error"]))
+        const error = events[1] as Extract<LoadEvent, { type: "error" }>
+        expect(error.error).toBeInstanceOf(LoadError)
+        expect(error.error.message).toBe("offline")
+    })
+
+    it("reports an abort as soon as the load is cancelled, even if the fetcher ignores its signal", async () => {
+        const fetcher = jest.fn((_signal: AbortSignal) => new Promise<string>(() => {}))
+
+        const { unmount } = renderHook(() => useLoadable(fetcher, []))
+        await waitFor(() => expect(fetcher).toHaveBeenCalled())
+        unmount()
+
+        expect(events.map(event => event.type)).toEqual(["start", "abort"])
+        expect(getActiveLoads()).toEqual([])
+    })
+
+    it("reports cache hits, and whether they were fresh", async () => {
+        const store = new FakeCacheStore()
+        store.seed("fresh", "cached", 1_000)
+        store.seed("stale", "cached", 0)
+
+        renderHook(() => useLoadable(async () => "loaded", [], { cache: { key: "fresh", store, staleTime: 500 } }))
+        renderHook(() => useLoadable(async () => "loaded", [], { cache: { key: "stale", store, staleTime: 500 } }))
+
+        await waitFor(() => expect(events.filter(event => event.type === "cache-hit")).toHaveLength(2))
+        expect(events).toContainEqual(expect.objectContaining({ type: "cache-hit", key: "fresh", fresh: true }))
+        expect(events).toContainEqual(expect.objectContaining({ type: "cache-hit", key: "stale", fresh: false }))
+    })
+
+    it("reports cache writes, including setCached", async () => {
+        await setCached("todos", ["write tests"], new FakeCacheStore())
+
+        expect(events).toEqual([{ type: "cache-write", key: "todos" }])
+    })
+
+    it("logs errors thrown by a listener instead of rethrowing them", async () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => {})
+        const failing = subscribeToLoadEvents(() => {
+            throw new Error("broken panel")
+        })
+
+        await setCached("todos", [], new FakeCacheStore())
+
+        expect(error).toHaveBeenCalledWith(new Error("broken panel"))
+        expect(events).toHaveLength(1)
+        failing()
+        error.mockRestore()
+    })
+})
@@ -0,0 +1,116 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { invalidate, invalidatePrefix, invalidateWhere, LoadError, readCache, setCached, useLoadable } from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore, FakeClock, installFakeClock } from "../src/testing"
+
+describe("setCached", () => {
+    it("pushes the value to every mounted hook using the key, without refetching", async () => {
+        const store = new FakeCacheStore()
+        const fetcher = jest.fn(async () => "fetched")
+        const options = { cache: { key: "user", store } }
+
+        const first = renderHook(() => useLoadable(fetcher, [], options))
+        const second = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(second.result.current).toBe("fetched"))
+        const calls = fetcher.mock.calls.length
+
+        await act(() => setCached("user", "updated", store))
+        expect(first.result.current).toBe("updated")
+        expect(second.result.current).toBe("updated")
+        expect(fetcher).toHaveBeenCalledTimes(calls)
+        expect((await readCache("user", store))?.value).toBe("updated")
+    })
+
+    describe("with a frozen clock", () => {
+        let clock: FakeClock
+        beforeEach(() => (clock = installFakeClock(1_000)))
+        afterEach(() => clock.uninstall())
+
+        it("doesn't make a hook discard the result of a load already in flight", async () => {
+            const store = new FakeCacheStore()
+            const fetcher = createControllableFetcher<string>()
+
+            const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store } }))
+            await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+            clock.advance(100)
+            await act(() => setCached("user", "pushed", store))
+            expect(result.current).toBe("pushed")
+
+            fetcher.resolve("fetched")
+            await waitFor(() => expect(result.current).toBe("fetched"))
+        })
+
+        it("still lets a load in flight settle the hook when it fails", async () => {
+            const store = new FakeCacheStore()
+            const fetcher = createControllableFetcher<string>()
+
+            const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store } }))
+            await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+            clock.advance(100)
+            await act(() => setCached("user", "pushed", store))
+            fetcher.reject(new Error("offline"))
+            await waitFor(() => expect(result.current).toBeInstanceOf(LoadError))
+        })
+    })
+})
+
+describe("invalidate", () => {
+    it("drops the entry and makes mounted hooks refetch", async () => {
+        const store = new FakeCacheStore()
+        let n = 0
+        const fetcher = jest.fn(async () => `value ${++n}`)
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "todos", store } }))
+        await waitFor(() => expect(result.current).toBe("value 1"))
+
+        await act(() => invalidate("todos"))
+        await waitFor(() => expect(result.current).toBe("value 2"))
+        expect(fetcher).toHaveBeenCalledTimes(2)
+    })
+
+    it("leaves hooks using other keys alone", async () => {
+        const store = new FakeCacheStore()
+        const fetcher = jest.fn(async () => "value")
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "other", store } }))
+        await waitFor(() => expect(result.current).toBe("value"))
+
+        await act(() => invalidate("todos"))
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+
+    it("invalidates every key matching a predicate or a prefix", async () => {
+        const store = new FakeCacheStore()
+        store.seed("user/1", "a")
+        store.seed("user/2", "b")
+        store.seed("team/1", "c")
+        // Register the store, as a hook would
+        renderHook(() => useLoadable(async () => "d", [], { cache: { key: "team/2", store } }))
+
+        await act(() => invalidateWhere(key => key.startsWith("user/")))
+        expect(await readCache("user/1", store)).toBeUndefined()
+        expect(await readCache("user/2", store)).toBeUndefined()
+        expect((await readCache("team/1", store))?.value).toBe("c")
+
+        await act(() => invalidatePrefix("team/"))
+        expect(await readCache("team/1", store)).toBeUndefined()
+    })
+
+    it("skips stores that fail to delete, without logging", async () => {
+        const failing = new FakeCacheStore()
+        const store = new FakeCacheStore()
+        await setCached("todos", "failing", failing)
+        await setCached("todos", "cached", store)
+        failing.failWith = new Error("offline")
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+
+        try {
+            await invalidate("todos")
+            expect(store.entries.has("todos")).toBe(false)
+            expect(consoleError).not.toHaveBeenCalled()
+        } finally {
+            consoleError.mockRestore()
+        }
+    })
+})
@@ -0,0 +1,106 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { loading, LoadError, useMutation } from "../src/loadable"
+import { FakeClock, installFakeClock } from "../src/testing"
+
+function deferred<T>() {
+    let resolve!: (value: T) => void
+    let reject!: (reason: unknown) => void
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return { promise, resolve, reject }
+}
+
+describe("useMutation", () => {
+    it("is undefined until called, then loading, then the result", async () => {
+        const write = deferred<string>()
+        const { result } = renderHook(() => useMutation((_: number) => write.promise))
+        expect(result.current[0]).toBeUndefined()
+
+        let outcome!: Promise<unknown>
+        act(() => {
+            outcome = result.current[1](1)
+        })
+        expect(result.current[0]).toBe(loading)
+
+        write.resolve("saved")
+        await act(async () => {
+            await expect(outcome).resolves.toBe("saved")
+        })
+        expect(result.current[0]).toBe("saved")
+    })
+
+    it("resolves with a LoadError instead of rejecting, and rolls back through onError", async () => {
+        const failure = new Error("nope")
+        const onMutate = jest.fn(() => "previous")
+        const onError = jest.fn()
+        const onSuccess = jest.fn()
+        const { result } = renderHook(() =>
+            useMutation(async (_: string) => Promise.reject(failure), { onMutate, onError, onSuccess })
+        )
+
+        let outcome: unknown
+        await act(async () => {
+            outcome = await result.current[1]("todo")
+        })
+        expect(outcome).toBeInstanceOf(LoadError)
+        expect(result.current[0]).toBe(outcome)
+        expect(onError).toHaveBeenCalledWith(failure, "todo", "previous")
+        expect(onSuccess).not.toHaveBeenCalled()
+    })
+
+    it("passes onMutate's context to onSuccess", async () => {
+        const onSuccess = jest.fn()
+        const { result } = renderHook(() =>
+            useMutation(async (n: number) => n * 2, { onMutate: () => "context", onSuccess })
+        )
+
+        await act(() => result.current[1](2))
+        expect(onSuccess).toHaveBeenCalledWith(4, 2, "context")
+        expect(result.current[0]).toBe(4)
+    })
+
+    describe("with a frozen clock", () => {
+        let clock: FakeClock
+        beforeEach(() => (clock = installFakeClock(1_000)))
+        afterEach(() => clock.uninstall())
+
+        it("keeps the latest call's outcome when an earlier call settles later", async () => {
+            const first = deferred<string>()
+            const second = deferred<string>()
+            const writes = [first, second]
+            const { result } = renderHook(() => useMutation((_: number) => writes.shift()!.promise))
+
+            let firstOutcome!: Promise<unknown>
+            let secondOutcome!: Promise<unknown>
+            act(() => {
+                firstOutcome = result.current[1](1)
+                secondOutcome = result.current[1](2)
+            })
+
+            second.resolve("second")
+            await act(() => secondOutcome)
+            expect(result.current[0]).toBe("second")
+
+            first.resolve("first")
+            await act(async () => {
+                // The earlier call still resolves with its own result
+                await expect(firstOutcome).resolves.toBe("first")
+            })
+            expect(result.current[0]).toBe("second")
+        })
+    })
+
+    it("returns a stable mutate function that uses the latest mutator", async () => {
+        const { result, rerender } = renderHook(({ factor }) => useMutation(async (n: number) => n * factor), {
+            initialProps: { factor: 2 },
+        })
+        const mutate = result.current[1]
+        rerender({ factor: 3 })
+        expect(result.current[1]).toBe(mutate)
+
+        await act(() => result.current[1](2))
+        await waitFor(() => expect(result.current[0]).toBe(6))
+    })
+})
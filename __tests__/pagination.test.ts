@@ -0,0 +1,139 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { LoadError, useInfiniteLoadable } from "../src/loadable"
+import { FakeCacheStore, FakeClock, installFakeClock } from "../src/testing"
+
+interface Page {
+    items: string[]
+    next?: number
+}
+
+/** Serves `count` pages, whose cursor is the page number. */
+function pagesOf(count: number, prefix = "item") {
+    return jest.fn(async (cursor: number | undefined): Promise<Page> => {
+        const page = cursor ?? 0
+        return { items: [`${prefix} ${page}`], next: page + 1 < count ? page + 1 : undefined }
+    })
+}
+
+const nextCursor = (page: Page) => page.next
+
+describe("useInfiniteLoadable", () => {
+    it("loads the first page, then one more per loadNext", async () => {
+        const fetchPage = pagesOf(2)
+
+        const { result } = renderHook(() => useInfiniteLoadable(fetchPage, nextCursor, []))
+        await waitFor(() => expect(result.current[0]).toHaveLength(1))
+        expect(result.current[2]).toBe(true)
+
+        await act(() => result.current[1]())
+        expect((result.current[0] as Page[]).map(page => page.items[0])).toEqual(["item 0", "item 1"])
+        expect(result.current[2]).toBe(false)
+
+        // Past the last page, loadNext does nothing
+        await act(() => result.current[1]())
+        expect(fetchPage).toHaveBeenCalledTimes(2)
+    })
+
+    it("keeps the loaded pages when the next one fails, and retries it on loadNext", async () => {
+        let failing = true
+        const fetchPage = jest.fn(async (cursor: number | undefined): Promise<Page> => {
+            if (cursor === 1 && failing) throw new Error("offline")
+            return { items: [`item ${cursor ?? 0}`], next: (cursor ?? 0) + 1 }
+        })
+        const onError = jest.fn()
+
+        const { result } = renderHook(() => useInfiniteLoadable(fetchPage, nextCursor, [], { onError }))
+        await waitFor(() => expect(result.current[0]).toHaveLength(1))
+
+        await act(() => result.current[1]())
+        expect(result.current[0]).toHaveLength(1)
+        expect(result.current[3][1]).toBeInstanceOf(LoadError)
+        expect(onError).toHaveBeenCalledTimes(1)
+
+        failing = false
+        await act(() => result.current[1]())
+        expect(result.current[0]).toHaveLength(2)
+    })
+
+    it("shares the page in flight between loadNext calls", async () => {
+        const fetchPage = pagesOf(3)
+
+        const { result } = renderHook(() => useInfiniteLoadable(fetchPage, nextCursor, []))
+        await waitFor(() => expect(result.current[0]).toHaveLength(1))
+
+        await act(() => Promise.all([result.current[1](), result.current[1]()]))
+        expect(result.current[0]).toHaveLength(2)
+        expect(fetchPage).toHaveBeenCalledTimes(2)
+    })
+
+    it("starts over from the first page when the dependencies change", async () => {
+        const { result, rerender } = renderHook(
+            ({ topic }) => useInfiniteLoadable(pagesOf(3, topic), nextCursor, [topic]),
+            { initialProps: { topic: "cats" } }
+        )
+        await waitFor(() => expect(result.current[0]).toHaveLength(1))
+        await act(() => result.current[1]())
+        expect(result.current[0]).toHaveLength(2)
+
+        rerender({ topic: "dogs" })
+        await waitFor(() => expect((result.current[0] as Page[])[0]?.items[0]).toBe("dogs 0"))
+        expect(result.current[0]).toHaveLength(1)
+    })
+
+    describe("with a cache", () => {
+        let clock: FakeClock
+        let store: FakeCacheStore
+        const cachedPages: Page[] = [
+            { items: ["cached 0"], next: 1 },
+            { items: ["cached 1"], next: 2 },
+        ]
+
+        beforeEach(() => {
+            clock = installFakeClock(1_000)
+            store = new FakeCacheStore()
+            store.seed("feed", cachedPages)
+        })
+        afterEach(() => clock.uninstall())
+
+        it("shows a fresh entry without fetching", async () => {
+            const fetchPage = pagesOf(3)
+
+            const { result } = renderHook(() =>
+                useInfiniteLoadable(fetchPage, nextCursor, [], { cache: { key: "feed", store, staleTime: 60_000 } })
+            )
+
+            await waitFor(() => expect(result.current[0]).toEqual(cachedPages))
+            expect(fetchPage).not.toHaveBeenCalled()
+        })
+
+        it("refetches every cached page of a stale entry, and caches the result", async () => {
+            const fetchPage = pagesOf(3)
+
+            const { result } = renderHook(() =>
+                useInfiniteLoadable(fetchPage, nextCursor, [], { cache: { key: "feed", store } })
+            )
+
+            await waitFor(() =>
+                expect((result.current[0] as Page[]).map(page => page.items[0])).toEqual(["item 0", "item 1"])
+            )
+            expect(fetchPage).toHaveBeenCalledTimes(2)
+            await waitFor(async () => expect((await store.get("feed"))?.value).toEqual(result.current[0]))
+        })
+
+        it("keeps the cached pages when refetching them fails, surfacing the error after them", async () => {
+            const fetchPage = jest.fn(async (): Promise<Page> => {
+                throw new Error("offline")
+            })
+            const onError = jest.fn()
+
+            const { result } = renderHook(() =>
+                useInfiniteLoadable(fetchPage, nextCursor, [], { cache: { key: "feed", store }, onError })
+            )
+
+            await waitFor(() => expect(result.current[3][2]).toBeInstanceOf(LoadError))
+            expect(result.current[0]).toEqual(cachedPages)
+            expect(result.current[3].slice(0, 2)).toEqual(cachedPages)
+            expect(onError).toHaveBeenCalledTimes(1)
+        })
+    })
+})
@@ -0,0 +1,91 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { useLoadable } from "../src/loadable"
+import { createControllableFetcher } from "../src/testing"
+
+function sleep(ms: number) {
+    return act(() => new Promise<void>(resolve => setTimeout(resolve, ms)))
+}
+
+describe("refetchInterval", () => {
+    it("refetches on every tick, keeping the value on screen", async () => {
+        let n = 0
+        const fetcher = jest.fn(async () => ++n)
+        const seen: unknown[] = []
+
+        const { result } = renderHook(() => {
+            const value = useLoadable(fetcher, [], { refetchInterval: 20 })
+            seen.push(value)
+            return value
+        })
+
+        await waitFor(() => expect(result.current).toBeGreaterThanOrEqual(3))
+        // Only the very first render is `loading`
+        expect(seen.slice(seen.indexOf(1)).every(value => typeof value === "number")).toBe(true)
+    })
+
+    it("skips ticks while a load is in flight, so a slow fetch still lands", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { refetchInterval: 20 }))
+        fetcher.resolve("first")
+        await waitFor(() => expect(result.current).toBe("first"))
+
+        await waitFor(() => expect(fetcher.calls).toHaveLength(2))
+        const slow = fetcher.lastCall!
+        await sleep(80)
+        expect(fetcher.calls).toHaveLength(2)
+        expect(slow.aborted).toBe(false)
+
+        slow.resolve("second")
+        await waitFor(() => expect(result.current).toBe("second"))
+    })
+
+    it("pauses while the document is hidden, unless refetchIntervalInBackground is set", async () => {
+        const visibility = jest.spyOn(document, "visibilityState", "get").mockReturnValue("hidden")
+        const paused = jest.fn(async () => "value")
+        const background = jest.fn(async () => "value")
+
+        renderHook(() => useLoadable(paused, [], { refetchInterval: 20 }))
+        renderHook(() =>
+            useLoadable(background, [], { refetchInterval: 20, refetchIntervalInBackground: true })
+        )
+        await sleep(70)
+
+        expect(paused).toHaveBeenCalledTimes(1)
+        expect(background.mock.calls.length).toBeGreaterThan(1)
+        visibility.mockRestore()
+    })
+
+    it("stops once the hook unmounts", async () => {
+        const fetcher = jest.fn(async () => "value")
+
+        const { unmount } = renderHook(() => useLoadable(fetcher, [], { refetchInterval: 20 }))
+        await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1))
+        unmount()
+        await sleep(60)
+
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("refetchOnWindowFocus / refetchOnReconnect", () => {
+    it("refetches when the window regains focus or the browser comes back online", async () => {
+        let n = 0
+        const fetcher = jest.fn(async () => ++n)
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { refetchOnWindowFocus: true, refetchOnReconnect: true })
+        )
+        await waitFor(() => expect(result.current).toBe(1))
+
+        act(() => {
+            window.dispatchEvent(new Event("focus"))
+        })
+        await waitFor(() => expect(result.current).toBe(2))
+
+        act(() => {
+            window.dispatchEvent(new Event("online"))
+        })
+        await waitFor(() => expect(result.current).toBe(3))
+    })
+})
@@ -0,0 +1,76 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { Fetcher, LoadingToken, progressOf, useLoadable } from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore } from "../src/testing"
+
+describe("progress", () => {
+    it("holds a LoadingToken carrying the latest report while loading", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, []))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        fetcher.lastCall!.progress({ loaded: 30, total: 120 })
+        expect(result.current).toBeInstanceOf(LoadingToken)
+        expect((result.current as LoadingToken).progress).toEqual({ loaded: 30, total: 120 })
+        expect(progressOf(result.current)).toBe(0.25)
+
+        fetcher.lastCall!.progress(0.5)
+        expect(progressOf(result.current)).toBe(0.5)
+
+        fetcher.resolve("done")
+        await waitFor(() => expect(result.current).toBe("done"))
+        expect(progressOf(result.current)).toBeUndefined()
+    })
+
+    it("ignores reports from a load that has already settled", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, []))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        const call = fetcher.lastCall!
+        fetcher.resolve("done")
+        await waitFor(() => expect(result.current).toBe("done"))
+
+        call.progress(0.9)
+        expect(result.current).toBe("done")
+    })
+
+    it("never replaces a value already on screen", async () => {
+        const store = new FakeCacheStore()
+        store.seed("upload", "stale")
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "upload", store } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        expect(result.current).toBe("stale")
+
+        fetcher.lastCall!.progress(0.5)
+        expect(result.current).toBe("stale")
+    })
+
+    it("reaches every hook sharing a request, starting with the latest report", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const options = { cache: { key: "shared-upload", store: "memory" as const } }
+
+        const first = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.lastCall!.progress(0.25)
+
+        const second = renderHook(() => useLoadable(fetcher, [], options))
+        await waitFor(() => expect(progressOf(second.result.current)).toBe(0.25))
+
+        fetcher.lastCall!.progress(0.75)
+        expect(progressOf(first.result.current)).toBe(0.75)
+        expect(progressOf(second.result.current)).toBe(0.75)
+        expect(fetcher.calls).toHaveLength(1)
+    })
+
+    it("lets a fetcher be called without a reporter", async () => {
+        const fetcher: Fetcher<number> = async (_signal, onProgress) => {
+            onProgress?.(1)
+            return 42
+        }
+
+        await expect(fetcher(new AbortController().signal)).resolves.toBe(42)
+    })
+})
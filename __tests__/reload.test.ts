@@ -0,0 +1,109 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { loading, useAllThenWithReload, useLoadableWithReload, useThenWithReload } from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore } from "../src/testing"
+
+describe("useLoadableWithReload", () => {
+    it("refetches on reload, and resolves once the new value has settled", async () => {
+        let n = 0
+        const fetcher = jest.fn(async () => ++n)
+
+        const { result } = renderHook(() => useLoadableWithReload(fetcher, []))
+        await waitFor(() => expect(result.current[0]).toBe(1))
+
+        await act(() => result.current[1]())
+        expect(result.current[0]).toBe(2)
+        expect(fetcher).toHaveBeenCalledTimes(2)
+    })
+
+    it("returns a stable reload function", async () => {
+        const { result, rerender } = renderHook(() => useLoadableWithReload(async () => 1, []))
+        const reload = result.current[1]
+        rerender()
+        expect(result.current[1]).toBe(reload)
+        await waitFor(() => expect(result.current[0]).toBe(1))
+    })
+
+    it("skips the cache read when reloading", async () => {
+        const store = new FakeCacheStore()
+        store.seed("todos", ["cached"])
+        const fetcher = jest.fn(async () => ["fetched"])
+
+        const { result } = renderHook(() =>
+            useLoadableWithReload(fetcher, [], { cache: { key: "todos", store, staleTime: Infinity } })
+        )
+        await waitFor(() => expect(result.current[0]).toEqual(["cached"]))
+        expect(fetcher).not.toHaveBeenCalled()
+
+        await act(() => result.current[1]())
+        expect(result.current[0]).toEqual(["fetched"])
+    })
+
+    it("goes back to loading on reload, unless hideReload is set", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const plain = renderHook(() => useLoadableWithReload(fetcher, []))
+        fetcher.resolve("first")
+        await waitFor(() => expect(plain.result.current[0]).toBe("first"))
+        act(() => {
+            plain.result.current[1]()
+        })
+        expect(plain.result.current[0]).toBe(loading)
+        fetcher.resolve("second")
+        await waitFor(() => expect(plain.result.current[0]).toBe("second"))
+
+        const hidden = renderHook(() => useLoadableWithReload(fetcher, [], { hideReload: true }))
+        fetcher.resolve("first")
+        await waitFor(() => expect(hidden.result.current[0]).toBe("first"))
+        act(() => {
+            hidden.result.current[1]()
+        })
+        expect(hidden.result.current[0]).toBe("first")
+        fetcher.resolve("second")
+        await waitFor(() => expect(hidden.result.current[0]).toBe("second"))
+    })
+
+    it("lets a newer load win over an older one that settles later", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadableWithReload(fetcher, [], { hideReload: true }))
+        const first = fetcher.lastCall!
+        act(() => {
+            result.current[1]()
+        })
+        const second = fetcher.lastCall!
+
+        second.resolve("newer")
+        await waitFor(() => expect(result.current[0]).toBe("newer"))
+        first.resolve("older")
+        await act(() => Promise.resolve())
+        expect(result.current[0]).toBe("newer")
+        expect(first.aborted).toBe(true)
+    })
+})
+
+describe("useThenWithReload / useAllThenWithReload", () => {
+    it("reloads a dependent fetch with the upstream value", async () => {
+        let n = 0
+        const { result } = renderHook(() => {
+            const [user] = useLoadableWithReload(async () => "ada", [])
+            return useThenWithReload(user, async name => `${name}:${++n}`)
+        })
+
+        await waitFor(() => expect(result.current[0]).toBe("ada:1"))
+        await act(() => result.current[1]())
+        expect(result.current[0]).toBe("ada:2")
+    })
+
+    it("reloads a fetch depending on several loadables", async () => {
+        let n = 0
+        const { result } = renderHook(() => {
+            const [a] = useLoadableWithReload(async () => 1, [])
+            const [b] = useLoadableWithReload(async () => 2, [])
+            return useAllThenWithReload([a, b], async (x, y) => (x as number) + (y as number) + ++n)
+        })
+
+        await waitFor(() => expect(result.current[0]).toBe(4))
+        await act(() => result.current[1]())
+        expect(result.current[0]).toBe(5)
+    })
+})
@@ -0,0 +1,98 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { LoadError, LoadingToken, useLoadable } from "../src/loadable"
+import { FakeCacheStore } from "../src/testing"
+
+function failingTimes<T>(failures: number, value: T) {
+    let calls = 0
+    return jest.fn(async () => {
+        calls++
+        if (calls <= failures) throw new Error(`failure ${calls}`)
+        return value
+    })
+}
+
+describe("retry", () => {
+    it("retries failed loads before settling to the value", async () => {
+        const fetcher = failingTimes(2, "ok")
+        const seen: unknown[] = []
+
+        const { result } = renderHook(() => {
+            const value = useLoadable(fetcher, [], { retry: { retries: 3, baseDelay: 1, jitter: false } })
+            seen.push(value)
+            return value
+        })
+
+        await waitFor(() => expect(result.current).toBe("ok"))
+        expect(fetcher).toHaveBeenCalledTimes(3)
+        const attempts = seen.filter(v => v instanceof LoadingToken).map(v => (v as LoadingToken).attempt)
+        expect(attempts).toEqual(expect.arrayContaining([1, 2]))
+    })
+
+    it("settles to a LoadError once the retries run out, calling onError once", async () => {
+        const fetcher = failingTimes(10, "never")
+        const onError = jest.fn()
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { retry: { retries: 2, baseDelay: 1, jitter: false }, onError })
+        )
+
+        await waitFor(() => expect(result.current).toBeInstanceOf(LoadError))
+        expect(fetcher).toHaveBeenCalledTimes(3)
+        expect(onError).toHaveBeenCalledTimes(1)
+    })
+
+    it("asks a predicate whether to retry", async () => {
+        const fetcher = failingTimes(10, "never")
+        const predicate = jest.fn((attempt: number) => attempt < 2)
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { retry: { retries: predicate, baseDelay: 1 } })
+        )
+
+        await waitFor(() => expect(result.current).toBeInstanceOf(LoadError))
+        expect(fetcher).toHaveBeenCalledTimes(2)
+        expect(predicate).toHaveBeenCalledWith(1, expect.any(Error))
+    })
+
+    it("doesn't retry by default", async () => {
+        const fetcher = failingTimes(1, "ok")
+
+        const { result } = renderHook(() => useLoadable(fetcher, []))
+
+        await waitFor(() => expect(result.current).toBeInstanceOf(LoadError))
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+
+    it("keeps a stale value on screen while retrying, reporting retries to onRetry", async () => {
+        const store = new FakeCacheStore()
+        store.seed("user", "stale")
+        const fetcher = failingTimes(1, "fresh")
+        const onRetry = jest.fn()
+        const seen: unknown[] = []
+
+        const { result } = renderHook(() => {
+            const value = useLoadable(fetcher, [], {
+                cache: { key: "user", store },
+                retry: { retries: 1, baseDelay: 20, jitter: false, onRetry },
+            })
+            seen.push(value)
+            return value
+        })
+
+        await waitFor(() => expect(result.current).toBe("fresh"))
+        expect(onRetry).toHaveBeenCalledWith(1, expect.any(Error))
+        const afterStale = seen.slice(seen.indexOf("stale"))
+        expect(afterStale.some(v => v instanceof LoadingToken)).toBe(false)
+    })
+
+    it("stops retrying once the hook unmounts", async () => {
+        const fetcher = failingTimes(10, "never")
+
+        const { unmount } = renderHook(() => useLoadable(fetcher, [], { retry: { retries: 5, baseDelay: 30 } }))
+        await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1))
+        unmount()
+
+        await new Promise(resolve => setTimeout(resolve, 60))
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+})
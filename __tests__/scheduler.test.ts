@@ -0,0 +1,207 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import {
+    configureScheduler,
+    loading,
+    TimeoutLoadError,
+    useLoadable,
+    useMutation,
+    UseLoadableOptions,
+    useStreamLoadable,
+} from "../src/loadable"
+
+// jsdom has no ReadableStream, so borrow Node's
+const NodeReadableStream: typeof ReadableStream = jest.requireActual("stream/web").ReadableStream
+
+/** Fetchers that record when they start, and resolve with their name once the test releases them. */
+function gatedFetchers() {
+    const started: string[] = []
+    const releases = new Map<string, () => void>()
+    const fetcher = (name: string) => (signal: AbortSignal) =>
+        new Promise<string>((resolve, reject) => {
+            started.push(name)
+            releases.set(name, () => resolve(name))
+            signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+        })
+    const release = (name: string) => act(() => releases.get(name)!())
+    return { started, fetcher, release }
+}
+
+/** Gives every mounted hook the time to queue its fetch. */
+const settle = () => act(() => new Promise(resolve => setTimeout(resolve, 20)))
+
+describe("configureScheduler", () => {
+    afterEach(() => {
+        configureScheduler({ concurrency: Infinity, groups: { thumbnails: Infinity, avatars: Infinity } })
+    })
+
+    function mount(fetcher: (signal: AbortSignal) => Promise<string>, options?: UseLoadableOptions<string>) {
+        return renderHook(() => useLoadable(fetcher, [], options))
+    }
+
+    it("starts queued fetches by priority, oldest first within one", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher, release } = gatedFetchers()
+
+        mount(fetcher("first"))
+        await waitFor(() => expect(started).toEqual(["first"]))
+        mount(fetcher("low"), { priority: -1 })
+        mount(fetcher("normal"))
+        mount(fetcher("high"), { priority: 5 })
+        mount(fetcher("normal, later"))
+        await settle()
+        expect(started).toEqual(["first"])
+
+        for (const name of ["first", "high", "normal", "normal, later"]) {
+            await release(name)
+            await settle()
+        }
+        expect(started).toEqual(["first", "high", "normal", "normal, later", "low"])
+    })
+
+    it("starts waiting fetches straight away when a limit is raised", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher } = gatedFetchers()
+
+        mount(fetcher("first"))
+        mount(fetcher("second"))
+        await settle()
+        expect(started).toEqual(["first"])
+
+        act(() => configureScheduler({ concurrency: 2 }))
+        await waitFor(() => expect(started).toEqual(["first", "second"]))
+    })
+
+    it("limits a group without holding back fetches outside it", async () => {
+        configureScheduler({ groups: { thumbnails: 1 } })
+        const { started, fetcher, release } = gatedFetchers()
+
+        mount(fetcher("thumbnail 1"), { group: "thumbnails" })
+        mount(fetcher("thumbnail 2"), { group: "thumbnails" })
+        mount(fetcher("hero"))
+        await settle()
+        expect(started).toEqual(["thumbnail 1", "hero"])
+
+        await release("thumbnail 1")
+        await waitFor(() => expect(started).toEqual(["thumbnail 1", "hero", "thumbnail 2"]))
+    })
+
+    it("merges group limits into the ones set before", async () => {
+        configureScheduler({ groups: { thumbnails: 1 } })
+        configureScheduler({ groups: { avatars: 1 } })
+        const { started, fetcher } = gatedFetchers()
+
+        mount(fetcher("thumbnail 1"), { group: "thumbnails" })
+        mount(fetcher("thumbnail 2"), { group: "thumbnails" })
+        await settle()
+        expect(started).toEqual(["thumbnail 1"])
+
+        act(() => configureScheduler({ groups: { thumbnails: Infinity } }))
+        await waitFor(() => expect(started).toEqual(["thumbnail 1", "thumbnail 2"]))
+    })
+
+    it("drops a fetch whose hook unmounts while it's queued", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher, release } = gatedFetchers()
+
+        mount(fetcher("first"))
+        const dropped = mount(fetcher("dropped"))
+        const { result } = mount(fetcher("last"))
+        await settle()
+        dropped.unmount()
+
+        await release("first")
+        await waitFor(() => expect(started).toEqual(["first", "last"]))
+        await release("last")
+        await waitFor(() => expect(result.current).toBe("last"))
+        expect(started).not.toContain("dropped")
+    })
+
+    it("throws a RangeError for limits that aren't positive integers or Infinity, changing nothing", async () => {
+        for (const concurrency of [0, -1, NaN, 1.5]) {
+            expect(() => configureScheduler({ concurrency })).toThrow(RangeError)
+        }
+        expect(() => configureScheduler({ groups: { thumbnails: 0 } })).toThrow(RangeError)
+
+        configureScheduler({ concurrency: 1 })
+        expect(() => configureScheduler({ concurrency: 2, groups: { thumbnails: NaN } })).toThrow(RangeError)
+        const { started, fetcher } = gatedFetchers()
+        mount(fetcher("first"))
+        mount(fetcher("second"))
+        await settle()
+        expect(started).toEqual(["first"])
+    })
+
+    it("doesn't count time spent queued toward a timeout", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher, release } = gatedFetchers()
+
+        mount(fetcher("first"))
+        const { result } = mount(fetcher("queued"), { timeout: 30 })
+        await act(() => new Promise(resolve => setTimeout(resolve, 60)))
+        await release("first")
+
+        await waitFor(() => expect(started).toEqual(["first", "queued"]))
+        await release("queued")
+        await waitFor(() => expect(result.current).toBe("queued"))
+    })
+
+    it("starts the timeout of every hook sharing a request once the request starts", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher, release } = gatedFetchers()
+        const options = { cache: { key: "shared", store: "memory" as const }, timeout: 30 }
+
+        mount(fetcher("first"))
+        const firstHook = mount(fetcher("shared"), options)
+        const secondHook = mount(fetcher("shared"), options)
+        await act(() => new Promise(resolve => setTimeout(resolve, 60)))
+        await release("first")
+
+        await waitFor(() => expect(started).toEqual(["first", "shared"]))
+        expect(firstHook.result.current).toBe(loading)
+        expect(secondHook.result.current).toBe(loading)
+        await waitFor(() => expect(firstHook.result.current).toBeInstanceOf(TimeoutLoadError))
+        await waitFor(() => expect(secondHook.result.current).toBeInstanceOf(TimeoutLoadError))
+    })
+
+    it("schedules mutations, running onMutate straight away", async () => {
+        configureScheduler({ concurrency: 1 })
+        const { started, fetcher, release } = gatedFetchers()
+        const onMutate = jest.fn()
+        const mutator = jest.fn(async (todo: string) => `saved ${todo}`)
+
+        mount(fetcher("first"))
+        const { result } = renderHook(() => useMutation(mutator, { onMutate, priority: 1 }))
+        await waitFor(() => expect(started).toEqual(["first"]))
+        act(() => {
+            result.current[1]("write tests")
+        })
+        await settle()
+        expect(onMutate).toHaveBeenCalledWith("write tests")
+        expect(mutator).not.toHaveBeenCalled()
+
+        await release("first")
+        await waitFor(() => expect(result.current[0]).toBe("saved write tests"))
+    })
+
+    it("schedules streams, holding the slot until the stream ends", async () => {
+        configureScheduler({ concurrency: 1 })
+        let controller!: ReadableStreamDefaultController<string>
+        const stream = new NodeReadableStream<string>({
+            start: c => {
+                controller = c
+            },
+        })
+        const { started, fetcher } = gatedFetchers()
+
+        const streamed = renderHook(() => useStreamLoadable(async () => stream, []))
+        act(() => controller.enqueue("token"))
+        await waitFor(() => expect(streamed.result.current[0]).toBe("token"))
+        mount(fetcher("after the stream"))
+        await settle()
+        expect(started).toEqual([])
+
+        act(() => controller.close())
+        await waitFor(() => expect(streamed.result.current[1]).toBe(true))
+        await waitFor(() => expect(started).toEqual(["after the stream"]))
+    })
+})
@@ -0,0 +1,10 @@
+// Runs before every test file. `@testing-library/react` unmounts rendered trees after each test.
+
+// Tell React the tests wrap updates in `act` (renderHook, waitFor and the testing utilities do)
+;(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
+
+afterEach(() => {
+    // The built-in "localStorage" store would otherwise leak entries between tests
+    // (server-side tests run without a window)
+    if (typeof window !== "undefined") window.localStorage.clear()
+})
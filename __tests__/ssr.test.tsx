@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ */
+import React, { Suspense } from "react"
+import { renderToString } from "react-dom/server"
+import {
+    hasLoaded,
+    hydrate,
+    invalidateWhere,
+    loadFailed,
+    readCache,
+    renderWithLoadables,
+    useLoadable,
+    useSuspenseLoadable,
+    useThen,
+    writeCache,
+} from "../src/loadable"
+
+function User({ fetchUser }: { fetchUser: () => Promise<string> }) {
+    const user = useLoadable(fetchUser, [], { cache: "user" })
+    if (loadFailed(user)) return <p>failed</p>
+    return <p>{hasLoaded(user) ? user : "loading"}</p>
+}
+
+describe("renderWithLoadables", () => {
+    it("renders again with the loaded values, and dehydrates them", async () => {
+        const fetchUser = jest.fn(async () => "Ada")
+
+        const { result, state } = await renderWithLoadables(() => renderToString(<User fetchUser={fetchUser} />))
+
+        expect(result).toContain("Ada")
+        expect(state.entries.user.value).toBe("Ada")
+        expect(fetchUser).toHaveBeenCalledTimes(1)
+    })
+
+    it("renders once more per step of a chain", async () => {
+        function Posts() {
+            const user = useLoadable(async () => "ada", [], { cache: "chain-user" })
+            const posts = useThen(user, async name => `${name}'s posts`, [user], { cache: "chain-posts" })
+            return <p>{hasLoaded(posts) ? posts : "loading"}</p>
+        }
+
+        const { result } = await renderWithLoadables(() => renderToString(<Posts />))
+        expect(result).toContain("ada&#x27;s posts")
+
+        const limited = await renderWithLoadables(() => renderToString(<Posts />), { maxPasses: 2 })
+        expect(limited.result).toContain("loading")
+    })
+
+    it("dehydrates failures as messages", async () => {
+        const { result, state } = await renderWithLoadables(() =>
+            renderToString(<User fetchUser={() => Promise.reject(new Error("offline"))} />)
+        )
+
+        expect(result).toContain("failed")
+        expect(state.errors.user).toBe("offline")
+    })
+
+    it("times out a load that takes too long", async () => {
+        function Slow() {
+            const value = useLoadable(() => new Promise<string>(() => {}), [], { cache: "slow", timeout: 20 })
+            return <p>{loadFailed(value) ? "timed out" : "loading"}</p>
+        }
+
+        const { result, state } = await renderWithLoadables(() => renderToString(<Slow />))
+
+        expect(result).toContain("timed out")
+        expect(state.errors.slow).toBeDefined()
+    })
+
+    it("never shares a request between concurrent renders", async () => {
+        let resolveA!: (value: string) => void
+        const fetchA = jest.fn(() => new Promise<string>(resolve => (resolveA = resolve)))
+        const fetchB = jest.fn(async () => "Grace")
+
+        const renderA = renderWithLoadables(() => renderToString(<User fetchUser={fetchA} />))
+        const renderB = renderWithLoadables(() => renderToString(<User fetchUser={fetchB} />))
+        const b = await renderB
+        resolveA("Ada")
+        const a = await renderA
+
+        expect(a.result).toContain("Ada")
+        expect(b.result).toContain("Grace")
+        expect(fetchB).toHaveBeenCalledTimes(1)
+    })
+
+    it("keeps the built-in stores private to each render", async () => {
+        await renderWithLoadables(() => {
+            writeCache("session", "secret")
+            return renderToString(<p />)
+        })
+
+        expect(await readCache("session")).toBeUndefined()
+        const seen: string[] = []
+        await invalidateWhere(key => {
+            seen.push(key)
+            return false
+        })
+        expect(seen).not.toContain("session")
+    })
+
+    it("never hands one render's suspense loads to the next", async () => {
+        function Secret({ fetchSecret }: { fetchSecret: () => Promise<string> }) {
+            return <p>{useSuspenseLoadable(fetchSecret, [], { key: "secret" })}</p>
+        }
+        const renderSecret = (fetchSecret: () => Promise<string>) =>
+            renderWithLoadables(() =>
+                renderToString(
+                    <Suspense fallback={<p>loading</p>}>
+                        <Secret fetchSecret={fetchSecret} />
+                    </Suspense>
+                )
+            )
+        const fetchA = jest.fn(async () => "alice-secret")
+        const fetchB = jest.fn(async () => "bob-secret")
+
+        const a = await renderSecret(fetchA)
+        const b = await renderSecret(fetchB)
+
+        expect(a.result).toContain("alice-secret")
+        expect(b.result).toContain("bob-secret")
+        expect(b.result).not.toContain("alice-secret")
+        expect(fetchB).toHaveBeenCalledTimes(1)
+    })
+
+    it("keeps what a suspense load caches after the render's pass in that render's store", async () => {
+        function Me({ fetchMe }: { fetchMe: () => Promise<string> }) {
+            return <p>{useSuspenseLoadable(fetchMe, [], { cache: { key: "me", store: "memory" } })}</p>
+        }
+        const renderMe = (fetchMe: () => Promise<string>) =>
+            renderWithLoadables(() =>
+                renderToString(
+                    <Suspense fallback={<p>loading</p>}>
+                        <Me fetchMe={fetchMe} />
+                    </Suspense>
+                )
+            )
+
+        const a = await renderMe(async () => "alice")
+        const fetchB = jest.fn(async () => "bob")
+        const b = await renderMe(fetchB)
+
+        expect(a.result).toContain("alice")
+        expect(b.result).toContain("bob")
+        expect(fetchB).toHaveBeenCalledTimes(1)
+        expect(await readCache("me", "memory")).toBeUndefined()
+    })
+
+    it("caches nothing in the built-in stores outside of a render", async () => {
+        await writeCache("me", "alice", "memory")
+
+        expect(await readCache("me", "memory")).toBeUndefined()
+    })
+
+    it("round-trips through hydrate", async () => {
+        const { state } = await renderWithLoadables(() =>
+            renderToString(<User fetchUser={async () => "Ada"} />)
+        )
+        // What the server sends is JSON
+        hydrate(JSON.parse(JSON.stringify(state)))
+
+        const fetchUser = jest.fn(async () => "fetched on the client")
+        expect(renderToString(<User fetchUser={fetchUser} />)).toContain("Ada")
+    })
+})
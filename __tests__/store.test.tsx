@@ -0,0 +1,104 @@
+import React, { startTransition, Suspense, use } from "react"
+import { act, render, renderHook, screen, waitFor } from "@testing-library/react"
+import { createResource, loading, LoadError, setCached, useLoadable, useLoadableStore } from "../src/loadable"
+import { createControllableFetcher, FakeClock, installFakeClock } from "../src/testing"
+
+describe("LoadableStore", () => {
+    let clock: FakeClock
+    beforeEach(() => {
+        clock = installFakeClock(1_000)
+    })
+    afterEach(() => clock.uninstall())
+
+    it("fetches nothing until asked, then resolves whenLoaded with the value", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const resource = createResource(fetcher)
+        expect(resource.started).toBe(false)
+        expect(resource.getSnapshot()).toBe(loading)
+
+        const loaded = resource.whenLoaded()
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.resolve("Ada")
+
+        await expect(loaded).resolves.toBe("Ada")
+        expect(resource.getSnapshot()).toBe("Ada")
+    })
+
+    it("rejects whenLoaded with the LoadError", async () => {
+        const resource = createResource(async () => Promise.reject(new Error("offline")))
+
+        await expect(resource.whenLoaded()).rejects.toBeInstanceOf(LoadError)
+    })
+
+    it("notifies subscribers until they unsubscribe", () => {
+        const resource = createResource(async () => "unused")
+        const listener = jest.fn()
+
+        const unsubscribe = resource.subscribe(listener)
+        resource.set("first")
+        unsubscribe()
+        resource.set("second")
+
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(resource.getSnapshot()).toBe("second")
+    })
+
+    it("ignores values from a load older than the current one", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const resource = createResource(fetcher)
+
+        resource.load()
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        clock.advance(10)
+        resource.set("newer")
+        resource.set("older", 1_000)
+
+        expect(resource.getSnapshot()).toBe("newer")
+    })
+
+    it("is shared by every component reading it, and loaded once", async () => {
+        const fetcher = jest.fn(async () => "shared")
+        const resource = createResource(fetcher)
+
+        const first = renderHook(() => useLoadableStore(resource))
+        const second = renderHook(() => useLoadableStore(resource))
+
+        await waitFor(() => expect(first.result.current).toBe("shared"))
+        expect(second.result.current).toBe("shared")
+        expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("useLoadable's store", () => {
+    it("isn't reconfigured by a render that never commits", async () => {
+        const never = new Promise<never>(() => {})
+
+        function User({ id }: { id: string }) {
+            const user = useLoadable(async () => `fetched ${id}`, [id], { cache: { key: id, store: "memory" } })
+            // Suspends the update to "b", so the committed tree stays on "a"
+            if (id === "b") use(never)
+            return <span>{String(user)}</span>
+        }
+
+        let setId!: (id: string) => void
+        function App() {
+            const [id, set] = React.useState("a")
+            setId = set
+            return (
+                <Suspense fallback={<span>fallback</span>}>
+                    <User id={id} />
+                </Suspense>
+            )
+        }
+
+        await act(async () => {
+            render(<App />)
+        })
+        await waitFor(() => expect(screen.getByText("fetched a")).toBeTruthy())
+
+        await act(async () => startTransition(() => setId("b")))
+        await act(() => setCached("a", "pushed to a", "memory"))
+
+        expect(screen.getByText("pushed to a")).toBeTruthy()
+    })
+})
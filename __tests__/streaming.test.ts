@@ -0,0 +1,147 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { loading, LoadError, useStreamLoadable } from "../src/loadable"
+
+// jsdom has no ReadableStream, so borrow Node's
+const NodeReadableStream: typeof ReadableStream = jest.requireActual("stream/web").ReadableStream
+
+/** A stream whose chunks are pushed by the test. */
+function pushStream<T>() {
+    let controller!: ReadableStreamDefaultController<T>
+    let cancelled = false
+    const stream = new NodeReadableStream<T>({
+        start: c => {
+            controller = c
+        },
+        cancel: () => {
+            cancelled = true
+        },
+    })
+    return {
+        stream,
+        push: (chunk: T) => controller.enqueue(chunk),
+        close: () => controller.close(),
+        fail: (error: unknown) => controller.error(error),
+        get cancelled() {
+            return cancelled
+        },
+    }
+}
+
+/** An async iterable whose chunks are pushed by the test, and which ignores any signal. */
+function pushIterable<T>() {
+    const pending: ((result: IteratorResult<T>) => void)[] = []
+    let returned = false
+    const iterable: AsyncIterable<T> = {
+        [Symbol.asyncIterator]: () => ({
+            next: () => new Promise<IteratorResult<T>>(resolve => pending.push(resolve)),
+            return: async () => {
+                returned = true
+                return { done: true, value: undefined }
+            },
+        }),
+    }
+    return {
+        iterable,
+        /** Answers the pending `next()`, if any; returns whether there was one. */
+        push: (chunk: T) => {
+            const resolve = pending.shift()
+            resolve?.({ done: false, value: chunk })
+            return resolve !== undefined
+        },
+        get returned() {
+            return returned
+        },
+    }
+}
+
+describe("useStreamLoadable", () => {
+    it("holds the latest chunk of an async generator, then reports done", async () => {
+        const { result } = renderHook(() =>
+            useStreamLoadable(async function* () {
+                yield "first"
+                yield "second"
+            }, [])
+        )
+
+        await waitFor(() => expect(result.current).toEqual(["second", true]))
+    })
+
+    it("accumulates a ReadableStream through the reducer", async () => {
+        const source = pushStream<string>()
+
+        const { result } = renderHook(() =>
+            useStreamLoadable(() => source.stream, [], { reducer: (text, token) => text + token, initial: "" })
+        )
+        expect(result.current).toEqual([loading, false])
+
+        source.push("Hel")
+        await waitFor(() => expect(result.current[0]).toBe("Hel"))
+        source.push("lo")
+        await waitFor(() => expect(result.current[0]).toBe("Hello"))
+        expect(result.current[1]).toBe(false)
+
+        source.close()
+        await waitFor(() => expect(result.current).toEqual(["Hello", true]))
+    })
+
+    it("settles an empty stream to initial with a reducer, and to a LoadError without", async () => {
+        const empty = async function* (): AsyncGenerator<string> {}
+
+        const reduced = renderHook(() =>
+            useStreamLoadable(empty, [], { reducer: (text, token) => text + token, initial: "nothing" })
+        )
+        const latest = renderHook(() => useStreamLoadable(empty, []))
+
+        await waitFor(() => expect(reduced.result.current).toEqual(["nothing", true]))
+        await waitFor(() => expect(latest.result.current[0]).toBeInstanceOf(LoadError))
+        expect(latest.result.current[1]).toBe(false)
+    })
+
+    it("settles a failing stream to a LoadError, calling onError", async () => {
+        const source = pushStream<string>()
+        const onError = jest.fn()
+        const cause = new Error("connection reset")
+
+        const { result } = renderHook(() => useStreamLoadable(() => source.stream, [], { onError }))
+        source.push("partial")
+        await waitFor(() => expect(result.current[0]).toBe("partial"))
+
+        source.fail(cause)
+        await waitFor(() => expect(result.current[0]).toBeInstanceOf(LoadError))
+        expect((result.current[0] as LoadError).cause).toBe(cause)
+        expect(onError).toHaveBeenCalledWith(cause)
+    })
+
+    it("cancels a ReadableStream on unmount", async () => {
+        const source = pushStream<string>()
+
+        const { unmount } = renderHook(() => useStreamLoadable(() => source.stream, []))
+        await new Promise(resolve => setTimeout(resolve))
+        unmount()
+
+        await waitFor(() => expect(source.cancelled).toBe(true))
+    })
+
+    it("stops an iterable that ignores its signal without waiting for its next chunk", async () => {
+        const first = pushIterable<string>()
+        const second = pushIterable<string>()
+        const onError = jest.fn()
+
+        const { result, rerender } = renderHook(
+            ({ source }) => useStreamLoadable(() => source.iterable, [source], { onError }),
+            { initialProps: { source: first } }
+        )
+        await waitFor(() => expect(first.push("old")).toBe(true))
+        await waitFor(() => expect(result.current[0]).toBe("old"))
+
+        rerender({ source: second })
+        await waitFor(() => expect(first.returned).toBe(true))
+        expect(result.current).toEqual([loading, false])
+
+        // A chunk from the abandoned iterable is ignored
+        first.push("stale")
+        await waitFor(() => expect(second.push("new")).toBe(true))
+        await waitFor(() => expect(result.current[0]).toBe("new"))
+        expect(onError).not.toHaveBeenCalled()
+    })
+})
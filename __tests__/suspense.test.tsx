@@ -0,0 +1,131 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react"
+import React, { Component, ReactNode, Suspense } from "react"
+import { Fetcher, LoadError, setCached, useSuspenseLoadable } from "../src/loadable"
+import { ControllableFetcher, createControllableFetcher, FakeCacheStore } from "../src/testing"
+
+class ErrorBoundary extends Component<{ children: ReactNode }, { error: unknown }> {
+    state = { error: null as unknown }
+
+    static getDerivedStateFromError(error: unknown) {
+        return { error }
+    }
+
+    render() {
+        if (this.state.error === null) return this.props.children
+        return (
+            <button onClick={() => this.setState({ error: null })}>
+                {this.state.error instanceof LoadError ? "failed" : "crashed"}
+            </button>
+        )
+    }
+}
+
+function Name({ fetcher, id = "ada" }: { fetcher: Fetcher<string>; id?: string }) {
+    const name = useSuspenseLoadable(fetcher, [id], { key: "name" })
+    return <span>{name}</span>
+}
+
+/** Renders inside an awaited `act`, which React requires for components that suspend. */
+async function renderSuspending(children: ReactNode) {
+    let rendered!: ReturnType<typeof render>
+    await act(async () => {
+        rendered = render(
+            <ErrorBoundary>
+                <Suspense fallback={<span>loading</span>}>{children}</Suspense>
+            </ErrorBoundary>
+        )
+    })
+    return rendered
+}
+
+/** Waits for the fetcher's `count`th call: loads start after a cache read. */
+function called(fetcher: ControllableFetcher<string>, count = 1) {
+    return waitFor(() => expect(fetcher.calls).toHaveLength(count))
+}
+
+/** Lets every pending promise callback run, even while jest's fake timers are installed. */
+function flushPromises() {
+    return new Promise(resolve => jest.requireActual("timers").setImmediate(resolve))
+}
+
+describe("useSuspenseLoadable", () => {
+    beforeEach(() => {
+        // React reports the errors caught by boundaries
+        jest.spyOn(console, "error").mockImplementation(() => {})
+    })
+    afterEach(() => jest.restoreAllMocks())
+
+    it("suspends until the value has loaded", async () => {
+        const fetcher = createControllableFetcher<string>()
+        await renderSuspending(<Name fetcher={fetcher} />)
+        expect(screen.getByText("loading")).toBeTruthy()
+
+        await called(fetcher)
+        await act(async () => fetcher.resolve("Ada"))
+        await screen.findByText("Ada")
+    })
+
+    it("shares one load between components using the same key and dependencies", async () => {
+        const fetcher = createControllableFetcher<string>()
+        await renderSuspending(
+            <>
+                <Name fetcher={fetcher} />
+                <Name fetcher={fetcher} />
+            </>
+        )
+
+        await called(fetcher)
+        await act(async () => fetcher.resolve("Ada"))
+        expect(await screen.findAllByText("Ada")).toHaveLength(2)
+        expect(fetcher.calls).toHaveLength(1)
+    })
+
+    it("throws a failed load to the error boundary, and retries it once the boundary resets", async () => {
+        const fetcher = createControllableFetcher<string>()
+        await renderSuspending(<Name fetcher={fetcher} id="failing" />)
+
+        await called(fetcher)
+        await act(async () => fetcher.reject(new Error("offline")))
+        await screen.findByText("failed")
+
+        await act(async () => fireEvent.click(screen.getByText("failed")))
+        await called(fetcher, 2)
+        await act(async () => fetcher.resolve("Ada"))
+        await screen.findByText("Ada")
+    })
+
+    it("drops a load whose render never committed, once it has settled", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const { unmount } = await renderSuspending(<Name fetcher={fetcher} id="abandoned" />)
+        await called(fetcher)
+        unmount()
+
+        jest.useFakeTimers()
+        try {
+            fetcher.resolve("Ada")
+            await flushPromises()
+            jest.runOnlyPendingTimers()
+        } finally {
+            jest.useRealTimers()
+        }
+
+        await renderSuspending(<Name fetcher={fetcher} id="abandoned" />)
+        await called(fetcher, 2)
+        await act(async () => fetcher.resolve("Grace"))
+        await screen.findByText("Grace")
+    })
+
+    it("follows setCached for its cache key", async () => {
+        const store = new FakeCacheStore()
+        const fetcher = createControllableFetcher<string>()
+        function CachedName() {
+            return <span>{useSuspenseLoadable(fetcher, [], { cache: { key: "cached-name", store } })}</span>
+        }
+        await renderSuspending(<CachedName />)
+
+        await called(fetcher)
+        await act(async () => fetcher.resolve("Ada"))
+        await act(() => setCached("cached-name", "Grace", store))
+        await screen.findByText("Grace")
+    })
+})
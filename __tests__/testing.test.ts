@@ -0,0 +1,136 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { currentTimestamp, loading, LoadError, useLoadable } from "../src/loadable"
+import {
+    createControllableFetcher,
+    FakeCacheStore,
+    installFakeClock,
+    waitForLoaded,
+    waitForSettled,
+} from "../src/testing"
+
+describe("createControllableFetcher", () => {
+    it("records each call, and settles the latest one", async () => {
+        const fetcher = createControllableFetcher<string>()
+        expect(() => fetcher.resolve("too early")).toThrow("The fetcher hasn't been called yet")
+
+        const first = fetcher(new AbortController().signal)
+        const second = fetcher(new AbortController().signal)
+        expect(fetcher.calls).toHaveLength(2)
+        expect(fetcher.lastCall).toBe(fetcher.calls[1])
+
+        fetcher.resolve("second")
+        fetcher.calls[0].reject(new Error("first"))
+        await expect(second).resolves.toBe("second")
+        await expect(first).rejects.toThrow("first")
+        expect(fetcher.calls.map(call => call.settled)).toEqual([true, true])
+    })
+
+    it("rejects a call with the abort reason once its signal aborts, ignoring later settles", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const controller = new AbortController()
+
+        const call = fetcher(controller.signal)
+        controller.abort("navigated away")
+        fetcher.resolve("too late")
+
+        await expect(call).rejects.toBe("navigated away")
+        expect(fetcher.lastCall!.aborted).toBe(true)
+    })
+})
+
+describe("installFakeClock", () => {
+    it("drives currentTimestamp until uninstalled", () => {
+        const clock = installFakeClock(100)
+        expect(currentTimestamp()).toBe(100)
+        clock.advance(50)
+        expect(currentTimestamp()).toBe(150)
+        clock.set(10)
+        expect(clock.now).toBe(10)
+        expect(currentTimestamp()).toBe(10)
+
+        clock.uninstall()
+        expect(currentTimestamp()).toBeGreaterThan(1_000)
+    })
+})
+
+describe("FakeCacheStore", () => {
+    it("holds seeded entries and records writes", async () => {
+        const store = new FakeCacheStore()
+        store.seed("user", "Ada", 5)
+
+        expect(await store.get("user")).toEqual({ value: "Ada", timestamp: 5 })
+        await store.set("todos", { value: [], timestamp: 6 })
+        expect(store.writes).toEqual([{ key: "todos", entry: { value: [], timestamp: 6 } }])
+        expect(await store.keys()).toEqual(["user", "todos"])
+
+        await store.delete("user")
+        expect(await store.get("user")).toBeUndefined()
+        await store.clear()
+        expect(store.entries.size).toBe(0)
+    })
+
+    it("makes every operation fail with failWith", async () => {
+        const store = new FakeCacheStore()
+        store.failWith = new Error("quota exceeded")
+
+        await expect(store.get("user")).rejects.toThrow("quota exceeded")
+        await expect(store.set("user", { value: 1, timestamp: 1 })).rejects.toThrow("quota exceeded")
+        await expect(store.keys()).rejects.toThrow("quota exceeded")
+    })
+
+    it("shows a seeded entry once the hook has read it", async () => {
+        const store = new FakeCacheStore()
+        store.seed("user", "Ada")
+
+        const { result } = renderHook(() =>
+            useLoadable(createControllableFetcher<string>(), [], { cache: { key: "user", store } })
+        )
+
+        expect(result.current).toBe(loading)
+        expect(await waitForLoaded(result)).toBe("Ada")
+    })
+})
+
+describe("waitForSettled / waitForLoaded", () => {
+    it("return the loaded value, or the LoadError", async () => {
+        const fetcher = createControllableFetcher<string>()
+        const { result } = renderHook(() => useLoadable(fetcher, []))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+
+        fetcher.reject(new Error("offline"))
+        expect(await waitForSettled(result)).toBeInstanceOf(LoadError)
+        await expect(waitForLoaded(result)).rejects.toThrow("offline")
+    })
+
+    it("accept a getter, and give up after the timeout", async () => {
+        await expect(waitForSettled(() => loading, { timeout: 30 })).rejects.toThrow("Still loading after 30ms")
+    })
+
+    describe("under Jest's fake timers", () => {
+        beforeEach(() => jest.useFakeTimers())
+        afterEach(() => jest.useRealTimers())
+
+        it("advance the timers instead of waiting on them", async () => {
+            let attempts = 0
+            const { result } = renderHook(() =>
+                useLoadable(
+                    async () => {
+                        if (++attempts === 1) throw new Error("flaky")
+                        return "second try"
+                    },
+                    [],
+                    { retry: { retries: 1, baseDelay: 60_000, jitter: false } }
+                )
+            )
+
+            expect(await waitForLoaded(result, { timeout: 120_000, interval: 1_000 })).toBe("second try")
+            expect(attempts).toBe(2)
+        })
+
+        it("time out in fake time", async () => {
+            await expect(waitForSettled(() => loading, { timeout: 10_000 })).rejects.toThrow(
+                "Still loading after 10000ms"
+            )
+        })
+    })
+})
@@ -0,0 +1,58 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { isTimeoutLoadError, TimeoutLoadError, useLoadable } from "../src/loadable"
+import { createControllableFetcher } from "../src/testing"
+
+describe("timeout", () => {
+    it("settles to a TimeoutLoadError, even if the fetcher ignores its signal", async () => {
+        const onError = jest.fn()
+        let signal!: AbortSignal
+        const fetcher = jest.fn((s: AbortSignal) => {
+            signal = s
+            return new Promise<string>(() => {})
+        })
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { timeout: 30, onError }))
+
+        await waitFor(() => expect(isTimeoutLoadError(result.current)).toBe(true))
+        expect((result.current as TimeoutLoadError).timeout).toBe(30)
+        expect(signal.aborted).toBe(true)
+        expect(onError).toHaveBeenCalledWith(expect.any(TimeoutLoadError))
+    })
+
+    it("leaves a load that settles in time alone", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { timeout: 1_000 }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.resolve("in time")
+
+        await waitFor(() => expect(result.current).toBe("in time"))
+        expect(fetcher.lastCall!.aborted).toBe(false)
+    })
+
+    it("covers the whole load, retries included", async () => {
+        const fetcher = jest.fn(async () => {
+            throw new Error("offline")
+        })
+
+        const { result } = renderHook(() =>
+            useLoadable(fetcher, [], { timeout: 50, retry: { retries: 100, baseDelay: 20, jitter: false } })
+        )
+
+        await waitFor(() => expect(result.current).toBeInstanceOf(TimeoutLoadError))
+        const calls = fetcher.mock.calls.length
+        await new Promise(resolve => setTimeout(resolve, 60))
+        expect(fetcher).toHaveBeenCalledTimes(calls)
+    })
+
+    it("is ignored unless it's a positive, finite number", async () => {
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { timeout: 0 }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        await new Promise(resolve => setTimeout(resolve, 20))
+        fetcher.resolve("eventually")
+
+        await waitFor(() => expect(result.current).toBe("eventually"))
+    })
+})
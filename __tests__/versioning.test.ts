@@ -0,0 +1,117 @@
+import { renderHook, waitFor } from "@testing-library/react"
+import { CacheFormat, readCache, useLoadable, writeCache } from "../src/loadable"
+import { createControllableFetcher, FakeCacheStore, FakeClock, installFakeClock } from "../src/testing"
+
+const dates: CacheFormat = {
+    serializer: {
+        serialize: (date: Date) => date.toISOString(),
+        deserialize: stored => new Date(stored as string),
+    },
+}
+
+describe("cache versions and serializers", () => {
+    let clock: FakeClock
+    let store: FakeCacheStore
+    beforeEach(() => {
+        clock = installFakeClock(1_000)
+        store = new FakeCacheStore()
+    })
+    afterEach(() => clock.uninstall())
+
+    it("round-trips values through the serializer, stamping the version", async () => {
+        const date = new Date("2024-01-01T00:00:00Z")
+        await writeCache("joined", date, store, { ...dates, version: 2 })
+
+        expect(store.entries.get("joined")).toEqual({
+            value: "2024-01-01T00:00:00.000Z",
+            timestamp: 1_000,
+            version: 2,
+        })
+        expect((await readCache("joined", store, { ...dates, version: 2 }))?.value).toEqual(date)
+    })
+
+    it("treats an entry of another version as a miss without deleting it", async () => {
+        store.entries.set("user", { value: "v1 user", timestamp: 500, version: 1 })
+
+        expect(await readCache("user", store, { version: 2 })).toBeUndefined()
+        expect(await readCache("user", store)).toBeUndefined()
+        expect(store.entries.get("user")).toEqual({ value: "v1 user", timestamp: 500, version: 1 })
+    })
+
+    it("migrates an entry of another version, saving it back with its age", async () => {
+        store.entries.set("user", { value: { joinedAt: "2024" }, timestamp: 500, version: 1 })
+        const format: CacheFormat = {
+            version: 2,
+            migrate: (stored: any, fromVersion) => ({ joined: stored.joinedAt, fromVersion }),
+        }
+
+        expect(await readCache("user", store, format)).toEqual({
+            value: { joined: "2024", fromVersion: 1 },
+            timestamp: 500,
+            version: 2,
+        })
+        await waitFor(() =>
+            expect(store.entries.get("user")).toEqual({
+                value: { joined: "2024", fromVersion: 1 },
+                timestamp: 500,
+                version: 2,
+            })
+        )
+    })
+
+    it("reports and deletes an entry that can't be decoded", async () => {
+        store.entries.set("user", { value: "v1 user", timestamp: 500, version: 1 })
+        const onCorrupt = jest.fn()
+        const error = new Error("Can't migrate")
+
+        const entry = await readCache("user", store, {
+            version: 2,
+            migrate: () => {
+                throw error
+            },
+            onCorrupt,
+        })
+
+        expect(entry).toBeUndefined()
+        expect(onCorrupt).toHaveBeenCalledWith("user", error)
+        await waitFor(() => expect(store.entries.has("user")).toBe(false))
+    })
+
+    it("only deletes unparseable entries when given a format", async () => {
+        window.localStorage.setItem("loadable:todos", "{ not json")
+        const onCorrupt = jest.fn()
+
+        expect(await readCache("todos")).toBeUndefined()
+        expect(window.localStorage.getItem("loadable:todos")).toBe("{ not json")
+
+        expect(await readCache("todos", "localStorage", { onCorrupt })).toBeUndefined()
+        expect(onCorrupt).toHaveBeenCalledWith("todos", expect.any(SyntaxError))
+        await waitFor(() => expect(window.localStorage.getItem("loadable:todos")).toBeNull())
+    })
+
+    it("keeps the entry when the store fails to read", async () => {
+        store.seed("todos", ["write tests"])
+        const onCorrupt = jest.fn()
+        store.failWith = new Error("database busy")
+
+        expect(await readCache("todos", store, { onCorrupt })).toBeUndefined()
+        expect(onCorrupt).not.toHaveBeenCalled()
+
+        store.failWith = undefined
+        expect((await readCache("todos", store, {}))?.value).toEqual(["write tests"])
+    })
+
+    it("lets a hook load over an entry of another version", async () => {
+        store.entries.set("user", { value: "v1 user", timestamp: 500, version: 1 })
+        const fetcher = createControllableFetcher<string>()
+
+        const { result } = renderHook(() => useLoadable(fetcher, [], { cache: { key: "user", store, version: 2 } }))
+        await waitFor(() => expect(fetcher.calls).toHaveLength(1))
+        fetcher.resolve("v2 user")
+
+        await waitFor(() => expect(result.current).toBe("v2 user"))
+        await waitFor(() =>
+            expect(store.entries.get("user")).toEqual({ value: "v2 user", timestamp: 1_000, version: 2 })
+        )
+    })
+})
@@ -1,9 +1,11 @@
 module.exports = {
     roots: ["<rootDir>/__tests__"],
+    testEnvironment: "jsdom",
     transform: {
         "^.+\\.tsx?$": "ts-jest"
     },
     testRegex: "(/__tests__/.*|(\\.|/)(test|spec))\\.tsx?$",
+    testPathIgnorePatterns: ["/node_modules/", "<rootDir>/__tests__/setupTests.ts"],
     moduleFileExtensions: ["ts", "tsx", "js", "jsx", "json", "node"],
     setupFilesAfterEnv: ["<rootDir>/__tests__/setupTests.ts"]
 };
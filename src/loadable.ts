@@ -1,9 +1,19 @@
 import {
+    createContext,
+    createElement,
     DependencyList,
+    ReactNode,
+    use,
     useCallback,
+    useContext,
     useEffect,
+    useId,
+    useLayoutEffect,
+    useMemo,
+    useReducer,
     useRef,
     useState,
+    useSyncExternalStore,
 } from "react"
 
 /**
@@ -13,12 +23,19 @@ import {
  */
 export type TimeStamp = number
 
+/**
+ * The clock behind `currentTimestamp`. See `setClock`.
+ *
+ * @internal
+ */
+let clock: () => TimeStamp = () => Date.now()
+
 /**
  * Returns the current time as a `TimeStamp`.
  *
  * @remarks
  * By default, this is just `Date.now()`. You can replace this with a custom
- * monotonic clock or high-resolution timer if desired.
+ * monotonic clock or high-resolution timer with `setClock`.
  *
  * @returns The current time in milliseconds.
  *
@@ -31,7 +48,22 @@ export type TimeStamp = number
  * @public
  */
 export function currentTimestamp(): TimeStamp {
-    return Date.now()
+    return clock()
+}
+
+/**
+ * Replaces the clock behind `currentTimestamp`, which orders loads and ages cache entries.
+ *
+ * @remarks
+ * Mostly useful in tests: see `installFakeClock` in `@tobq/loadable/testing`. Timers
+ * (retry delays, timeouts, polling) still run on the real `setTimeout`.
+ *
+ * @param now - The new clock. Omit it to go back to `Date.now()`.
+ *
+ * @public
+ */
+export function setClock(now?: () => TimeStamp): void {
+    clock = now ?? (() => Date.now())
 }
 
 /**
@@ -91,6 +123,11 @@ export function useAbort() {
  * console.log("Loading started at:", token.startTime)
  * ```
  *
+ * While a load is being retried (see `UseLoadableOptions.retry`), the hooks hold a
+ * `LoadingToken` whose `attempt` is the number of the retry in progress. Once a fetcher
+ * reports progress, they hold a `LoadingToken` carrying the latest `progress`. Neither
+ * replaces a value that is already on screen, such as a stale entry being revalidated.
+ *
  * @public
  */
 export class LoadingToken {
@@ -98,9 +135,13 @@ export class LoadingToken {
      * Creates a new `LoadingToken`.
      *
      * @param startTime - When this token was created. Defaults to currentTimestamp().
+     * @param attempt - Which retry this load is on. `0` for the first try.
+     * @param progress - How far the load has got, if its fetcher reports progress.
      */
     constructor(
-        public readonly startTime: TimeStamp = currentTimestamp()
+        public readonly startTime: TimeStamp = currentTimestamp(),
+        public readonly attempt: number = 0,
+        public readonly progress?: LoadProgress
     ) {}
 }
 
@@ -173,6 +214,126 @@ export class LoadError extends Error {
     }
 }
 
+/**
+ * A load that was aborted by something other than the hook itself (e.g. the fetcher aborting
+ * a request of its own).
+ *
+ * @remarks
+ * The hook's own aborts (on unmount, a dependency change, a newer load or `cancel()`) are
+ * cancellations: the load is dropped without settling. Any other abort is a failure like
+ * the rest: the loadable settles to an `AbortedLoadError` and `onError` is called, so that
+ * the load doesn't stay `loading` forever.
+ *
+ * @public
+ */
+export class AbortedLoadError extends LoadError {
+    /**
+     * @param cause - The abort reason, usually an `AbortError`.
+     * @param message - An optional descriptive message.
+     */
+    constructor(cause?: unknown, message?: string) {
+        super(cause, message ?? (cause instanceof Error ? cause.message : "The load was aborted"))
+    }
+}
+
+/**
+ * A load that took longer than its `timeout`.
+ *
+ * @public
+ */
+export class TimeoutLoadError extends LoadError {
+    /**
+     * @param timeout - The timeout that elapsed, in milliseconds.
+     * @param cause - The underlying error, if any.
+     */
+    constructor(public readonly timeout: number, cause?: unknown) {
+        super(cause, `The load timed out after ${timeout}ms`)
+    }
+}
+
+/**
+ * A request that got an unsuccessful HTTP response. Throw it from a fetcher to keep the status around.
+ *
+ * @example
+ * ```ts
+ * const response = await fetch(url, { signal })
+ * if (!response.ok) throw new HttpLoadError(response.status, await response.text())
+ * ```
+ *
+ * @public
+ */
+export class HttpLoadError extends LoadError {
+    /**
+     * @param status - The response's HTTP status.
+     * @param body - The response body, if it was read.
+     * @param message - An optional descriptive message. Defaults to mentioning the status.
+     */
+    constructor(
+        public readonly status: number,
+        public readonly body?: unknown,
+        message?: string
+    ) {
+        super(body, message ?? `The request failed with status ${status}`)
+    }
+}
+
+/**
+ * Data that was fetched but didn't have the expected shape. Throw it from a fetcher that validates
+ * its response, with your schema library's error as the `cause`.
+ *
+ * @public
+ */
+export class ValidationLoadError extends LoadError {}
+
+/**
+ * Checks whether a value is an `AbortedLoadError`.
+ *
+ * @public
+ */
+export function isAbortedLoadError(value: unknown): value is AbortedLoadError {
+    return value instanceof AbortedLoadError
+}
+
+/**
+ * Checks whether a value is a `TimeoutLoadError`.
+ *
+ * @public
+ */
+export function isTimeoutLoadError(value: unknown): value is TimeoutLoadError {
+    return value instanceof TimeoutLoadError
+}
+
+/**
+ * Checks whether a value is an `HttpLoadError`.
+ *
+ * @public
+ */
+export function isHttpLoadError(value: unknown): value is HttpLoadError {
+    return value instanceof HttpLoadError
+}
+
+/**
+ * Checks whether a value is a `ValidationLoadError`.
+ *
+ * @public
+ */
+export function isValidationLoadError(value: unknown): value is ValidationLoadError {
+    return value instanceof ValidationLoadError
+}
+
+/**
+ * Wraps whatever a fetcher threw in a `LoadError`, keeping `LoadError`s (and their subclasses) as they are.
+ *
+ * @internal
+ */
+function toLoadError(e: unknown): LoadError {
+    if (e instanceof LoadError) return e
+    if (typeof e === "object" && e !== null && (e as { name?: unknown }).name === "AbortError") {
+        return new AbortedLoadError(e)
+    }
+    return new LoadError(e)
+}
+
 // -------------------------------------------------------------------
 // Loadable types
 // -------------------------------------------------------------------
@@ -275,6 +436,149 @@ export function all<T extends Loadable<unknown>[]>(...loadables: T): Loadable<{
     return loadables.map(l => l) as { [K in keyof T]: Loaded<T[K]> }
 }
 
+/**
+ * Chains a loadable into another loadable: like `map`, but the mapper may itself return `loading` or a `LoadError`.
+ *
+ * @param loadable - The original loadable.
+ * @param mapper - A function that turns the loaded data `T` into a `Loadable<R>`.
+ * @returns The mapper's loadable, or the same loading/error state.
+ *
+ * @example
+ * ```ts
+ * const avatar = flatMap(user, u => (u.avatarId ? avatars[u.avatarId] ?? loading : defaultAvatar))
+ * ```
+ *
+ * @public
+ */
+export function flatMap<T, R>(loadable: Loadable<T>, mapper: (loaded: T) => Loadable<R>): Loadable<R> {
+    if (loadFailed(loadable)) return loadable
+    if (isLoadingValue(loadable)) return loadable
+    return mapper(loadable)
+}
+
+/**
+ * Applies a mapper function to a loadable if it has failed, e.g. to turn a raw failure into a friendlier one.
+ *
+ * @param loadable - The original loadable.
+ * @param mapper - A function that turns the `LoadError` into another `LoadError`.
+ * @returns The mapped error, or the same loading/loaded state.
+ *
+ * @example
+ * ```ts
+ * const user = mapError(userLoadable, e => new LoadError(e, "Couldn’t load your profile"))
+ * ```
+ *
+ * @public
+ */
+export function mapError<T>(loadable: Loadable<T>, mapper: (error: LoadError) => LoadError): Loadable<T> {
+    return loadFailed(loadable) ? mapper(loadable) : loadable
+}
+
+/**
+ * Turns a failed loadable into a fallback value.
+ *
+ * @param loadable - The original loadable.
+ * @param fallback - A function that turns the `LoadError` into a value of type `R`.
+ * @returns The fallback value, or the same loading/loaded state.
+ *
+ * @example
+ * ```ts
+ * const settings = recover(settingsLoadable, () => defaultSettings)
+ * ```
+ *
+ * @public
+ */
+export function recover<T, R>(loadable: Loadable<T>, fallback: (error: LoadError) => R): Loadable<T | R> {
+    return loadFailed(loadable) ? fallback(loadable) : loadable
+}
+
+/**
+ * Combines multiple loadables into one, keeping each item's outcome. Returns `loading` while any is still loading.
+ *
+ * @remarks
+ * Unlike `all()`, a failure doesn't hide the other items: once every loadable has settled, it
+ * returns an array holding each loaded value or `LoadError` (typed to match each item in `loadables`).
+ *
+ * @param loadables - The loadable values to combine.
+ * @returns A single loadable that is `loading` if any item is still loading, else an array of settled items.
+ *
+ * @example
+ * ```ts
+ * const settled = allSettled(userLoadable, statsLoadable)
+ * if (hasLoaded(settled)) {
+ *   const [user, stats] = settled
+ *   if (loadFailed(stats)) console.warn("No stats today")
+ * }
+ * ```
+ *
+ * @public
+ */
+export function allSettled<T extends Loadable<unknown>[]>(
+    ...loadables: T
+): Loadable<{ [K in keyof T]: Loaded<T[K]> | LoadError }> {
+    if (loadables.some(l => isLoadingValue(l))) {
+        return loading
+    }
+    return loadables.map(l => l) as { [K in keyof T]: Loaded<T[K]> | LoadError }
+}
+
+/**
+ * Returns the first of several loadables that has loaded, e.g. a fast cache next to a slower source.
+ *
+ * @remarks
+ * "First" means first in argument order. If none has loaded, it returns `loading` while any is
+ * still loading, and the first `LoadError` once all have failed.
+ *
+ * @param loadables - The loadable values to pick from.
+ * @returns The first loaded value, `loading`, or a `LoadError`.
+ *
+ * @example
+ * ```ts
+ * const article = firstLoaded(cachedArticle, freshArticle)
+ * ```
+ *
+ * @public
+ */
+export function firstLoaded<T extends Loadable<unknown>[]>(...loadables: T): Loadable<Loaded<T[number]>> {
+    for (const loadable of loadables) {
+        if (hasLoaded(loadable)) return loadable as Loaded<T[number]>
+    }
+    if (loadables.length === 0 || loadables.some(l => isLoadingValue(l))) {
+        return loading
+    }
+    return loadables.find(l => loadFailed(l)) as LoadError
+}
+
+/**
+ * Combines an object of loadables into one, keeping the keys. If any are still loading or have failed, returns `loading`.
+ *
+ * @remarks
+ * The keyed counterpart of `all()`.
+ *
+ * @param loadables - An object whose values are loadables.
+ * @returns A single loadable that is `loading` if any value is not loaded, else an object of loaded values.
+ *
+ * @example
+ * ```ts
+ * const combined = allObject({ user: userLoadable, stats: statsLoadable })
+ * if (!hasLoaded(combined)) {
+ *   return <Spinner />
+ * }
+ * const { user, stats } = combined
+ * ```
+ *
+ * @public
+ */
+export function allObject<const T extends Record<string, Loadable<unknown>>>(
+    loadables: T
+): Loadable<{ [K in keyof T]: Loaded<T[K]> }> {
+    const values = Object.values(loadables)
+    if (values.some(l => !hasLoaded(l))) {
+        return loading
+    }
+    return { ...loadables } as { [K in keyof T]: Loaded<T[K]> }
+}
+
 /**
  * Converts a loadable to `undefined` if not fully loaded, or the loaded value otherwise.
  *
@@ -312,19 +616,69 @@ export function isUsable<T>(loadable: Loadable<T | null | undefined>): loadable
     return hasLoaded(loadable) && loadable != null
 }
 
+/**
+ * Returns how far a loading loadable has got, as a fraction between 0 and 1.
+ *
+ * @param loadable - The loadable to inspect.
+ * @returns The reported progress, or `undefined` if the loadable isn't loading, or its
+ * fetcher hasn't reported progress with a known `total`.
+ *
+ * @example
+ * ```ts
+ * const upload = useLoadable((signal, onProgress) => uploadFile(file, signal, onProgress), [file])
+ * const fraction = progressOf(upload) // e.g. 0.42
+ * ```
+ *
+ * @public
+ */
+export function progressOf<T>(loadable: Loadable<T>): number | undefined {
+    if (!(loadable instanceof LoadingToken) || !loadable.progress) return undefined
+    const { loaded, total } = loadable.progress
+    if (!total) return undefined
+    return Math.min(Math.max(loaded / total, 0), 1)
+}
+
 // -------------------------------------------------------------------
 // Basic fetcher type
 // -------------------------------------------------------------------
 
+/**
+ * How far a load has got: `loaded` out of `total` units (bytes, items...). `total` may be unknown.
+ *
+ * @public
+ */
+export interface LoadProgress {
+    loaded: number
+    total?: number
+}
+
+/**
+ * Reports a load's progress, either as `{ loaded, total }` or as a fraction between 0 and 1.
+ *
+ * @public
+ */
+export type ProgressReporter = (progress: LoadProgress | number) => void
+
 /**
  * A function type that fetches data and returns a promise, using an `AbortSignal`.
  *
  * @param signal - The `AbortSignal` to handle cancellations.
+ * @param onProgress - Reports how far the fetch has got; see `progressOf`. The hooks always pass one,
+ * but it is optional so that a fetcher can also be called directly.
  * @returns A promise resolving to the fetched data of type `T`.
  *
  * @public
  */
-export type Fetcher<T> = (signal: AbortSignal) => Promise<T>
+export type Fetcher<T> = (signal: AbortSignal, onProgress?: ProgressReporter) => Promise<T>
+
+/**
+ * Turns whatever a fetcher reported into a `LoadProgress`.
+ *
+ * @internal
+ */
+function toLoadProgress(progress: LoadProgress | number): LoadProgress {
+    return typeof progress === "number" ? { loaded: progress, total: 1 } : progress
+}
 
 // -------------------------------------------------------------------
 // Caching shapes
@@ -333,768 +687,4447 @@ export type Fetcher<T> = (signal: AbortSignal) => Promise<T>
 /**
  * Defines the shape of a cache option with a key and an optional store.
  *
+ * @remarks
+ * Every entry is stored together with the time it was written. `staleTime` and
+ * `maxAge` are measured against that timestamp:
+ * - younger than `staleTime`: **fresh**, used as-is and the fetch is skipped;
+ * - older than `staleTime` but younger than `maxAge`: **stale**, rendered immediately
+ *   while a fetch revalidates it in the background;
+ * - older than `maxAge`: **expired**, ignored as if it were never cached.
+ *
+ * @example
+ * ```ts
+ * // Serve for a minute without refetching, revalidate for up to an hour
+ * useLoadable(fetchUser, [], {
+ *   cache: { key: "user", staleTime: 60_000, maxAge: 3_600_000 },
+ * })
+ * ```
+ *
  * @public
  */
 export interface CacheOption {
     /**
-     * The key to store in the cache (e.g., "myUserData").
+     * The key to store in the cache: a string (e.g. `"myUserData"`), an array of parts
+     * (e.g. `["user", id]`), or a function of the hook's dependencies returning either.
+     * See `serializeCacheKey`.
+     */
+    key: CacheKeyOption
+    /**
+     * The store used for caching: a built-in store name or a custom `CacheStore`.
+     * Defaults to `"localStorage"`.
+     */
+    store?: CacheStoreName | CacheStore
+    /**
+     * How long (in milliseconds) an entry stays fresh. Fresh entries skip the fetch.
+     * Defaults to `0`: cached entries are shown straight away, and always revalidated.
+     */
+    staleTime?: number
+    /**
+     * How long (in milliseconds) an entry may be used at all. Older entries are ignored.
+     * Defaults to `Infinity`.
      */
-    key: string
+    maxAge?: number
     /**
-     * The store used for caching. Defaults to `"localStorage"`.
+     * The version of the data's shape. Bump it when the shape changes: entries written under
+     * another version are passed to `migrate`, or ignored if there is none.
      */
-    store?: "memory" | "localStorage" | "indexedDB"
+    version?: CacheVersion
+    /**
+     * Turns values into something the store can keep, and back (e.g. to keep `Date`s, `Map`s
+     * or `BigInt`s intact in `localStorage`, which stores JSON).
+     */
+    serializer?: CacheSerializer
+    /**
+     * Upgrades an entry written under another `version`. Receives the stored value (as that
+     * version's serializer left it) and its version, and returns it in the current stored form,
+     * which is then deserialized. Throw to discard the entry.
+     */
+    migrate?(stored: unknown, fromVersion: CacheVersion | undefined): unknown
+    /**
+     * Called when an entry can't be read back (unparseable, not an entry, or rejected by
+     * `deserialize` / `migrate`). The entry is discarded and treated as a cache miss.
+     */
+    onCorrupt?(key: string, error: unknown): void
 }
 
 /**
- * Parses a `cache` field that could be a string or an object, returning a normalized object.
+ * Identifies the shape of cached data; see `CacheOption.version`.
+ *
+ * @public
+ */
+export type CacheVersion = number | string
+
+/**
+ * Converts cached values to and from the form kept in a cache store.
  *
- * @param cache - Either a string or `{ key, store }`.
- * @returns An object with `key` and `store`.
+ * @example
+ * ```ts
+ * const withDates: CacheSerializer = {
+ *   serialize: (user: User) => ({ ...user, createdAt: user.createdAt.toISOString() }),
+ *   deserialize: (stored: any) => ({ ...stored, createdAt: new Date(stored.createdAt) }),
+ * }
+ * ```
  *
- * @internal
+ * @public
  */
-function parseCacheOption(
-    cache?: string | CacheOption
-): { key?: string; store: "memory" | "localStorage" | "indexedDB" } {
-    if (!cache) {
-        return { key: undefined, store: "localStorage" }
-    }
-    if (typeof cache === "string") {
-        // If user passed a string, that is the cache key, default to localStorage
-        return { key: cache, store: "localStorage" }
-    }
-    // Otherwise, user passed an object { key, store? }
-    return {
-        key: cache.key,
-        store: cache.store ?? "localStorage",
-    }
+export interface CacheSerializer {
+    /**
+     * Converts a value into the form to store.
+     */
+    serialize(value: unknown): unknown
+    /**
+     * Converts a stored form back into the value. Throw if it's corrupt.
+     */
+    deserialize(stored: unknown): unknown
 }
 
-// -------------------------------------------------------------------
-// Our caching utilities
-// -------------------------------------------------------------------
-
-/** @internal */
-const memoryCache = new Map<string, unknown>()
+/**
+ * How entries are encoded and decoded: the `version`, `serializer`, `migrate` and `onCorrupt`
+ * fields of a `CacheOption`.
+ *
+ * @public
+ */
+export type CacheFormat = Pick<CacheOption, "version" | "serializer" | "migrate" | "onCorrupt">
 
 /**
- * Reads data from the specified cache store.
+ * A value as it is kept in a cache store, alongside the time it was written.
  *
- * @internal
- * @param key - The cache key.
- * @param store - Which store to use ("memory", "localStorage", or "indexedDB").
- * @returns The cached data or `undefined` if not found.
+ * @public
  */
-async function readCache<T>(
-    key: string,
-    store: "memory" | "localStorage" | "indexedDB"
-): Promise<T | undefined> {
-    switch (store) {
-        case "memory": {
-            return memoryCache.get(key) as T | undefined
-        }
-        case "localStorage": {
-            const json = window.localStorage.getItem(key)
-            if (!json) return undefined
-            try {
-                return JSON.parse(json) as T
-            } catch {
-                return undefined
-            }
-        }
-        case "indexedDB": {
-            return await readFromIndexedDB<T>(key)
+export interface CacheEntry<T> {
+    /**
+     * The cached data.
+     */
+    value: T
+    /**
+     * When the entry was written (see `currentTimestamp()`).
+     */
+    timestamp: TimeStamp
+    /**
+     * The `version` it was written under, if any.
+     */
+    version?: CacheVersion
+}
+
+/**
+ * A `CacheOption` with every default filled in.
+ *
+ * @internal
+ */
+interface ParsedCacheOption extends CacheFormat {
+    key?: string
+    store: CacheStoreName | CacheStore
+    staleTime: number
+    maxAge: number
+}
+
+/**
+ * Parses a `cache` field that could be a key or an object, returning a normalized object.
+ *
+ * @param cache - Either a key (see `CacheKeyOption`) or `{ key, store, staleTime, maxAge, ... }`.
+ * @param dependencies - The hook's dependencies, passed to a key function.
+ * @returns An object with every field of `CacheOption` set, and the key serialized.
+ *
+ * @internal
+ */
+function parseCacheOption(cache?: CacheKeyOption | CacheOption, dependencies: DependencyList = []): ParsedCacheOption {
+    if (!cache) {
+        return { key: undefined, store: "localStorage", staleTime: 0, maxAge: Infinity }
+    }
+    if (typeof cache === "string" || typeof cache === "function" || Array.isArray(cache)) {
+        // If user passed just a key, default to localStorage
+        return {
+            key: resolveCacheKey(cache as CacheKeyOption, dependencies),
+            store: "localStorage",
+            staleTime: 0,
+            maxAge: Infinity,
         }
     }
+    // Otherwise, user passed an object { key, store?, staleTime?, maxAge?, ... }
+    cache = cache as CacheOption
+    return {
+        ...cache,
+        key: resolveCacheKey(cache.key, dependencies),
+        store: cache.store ?? "localStorage",
+        staleTime: cache.staleTime ?? 0,
+        maxAge: cache.maxAge ?? Infinity,
+    }
 }
 
+// -------------------------------------------------------------------
+// Cache keys
+// -------------------------------------------------------------------
+
+/**
+ * A cache key: a string, or an array of parts (strings, numbers, plain objects...).
+ *
+ * @public
+ */
+export type CacheKey = string | readonly unknown[]
+
+/**
+ * A cache key, or a function of the hook's dependencies returning one.
+ *
+ * @remarks
+ * The dependencies are passed as `unknown`: a key only needs to serialize them, not to know their types.
+ *
+ * @example
+ * ```ts
+ * useLoadable(() => fetchUser(id), [id], { cache: id => ["user", id] })
+ * ```
+ *
+ * @public
+ */
+export type CacheKeyOption = CacheKey | ((...dependencies: unknown[]) => CacheKey)
+
 /**
- * Writes data to the specified cache store.
+ * Parts of an array key whose serialized form is longer than this are replaced by a hash.
  *
  * @internal
- * @param key - The cache key.
- * @param data - The data to store.
- * @param store - The store to use.
  */
-async function writeCache<T>(
-    key: string,
-    data: T,
-    store: "memory" | "localStorage" | "indexedDB"
-): Promise<void> {
-    switch (store) {
-        case "memory": {
-            memoryCache.set(key, data)
-            break
-        }
-        case "localStorage": {
-            window.localStorage.setItem(key, JSON.stringify(data))
-            break
-        }
-        case "indexedDB": {
-            await writeToIndexedDB(key, data)
-            break
+const MAX_CACHE_KEY_PART_LENGTH = 64
+
+/**
+ * Turns a cache key into the string it's stored under.
+ *
+ * @remarks
+ * Strings are used as-is, unless they start with `[` or `\`: those get a leading `\`, so that
+ * they can't collide with an array key. Arrays become a JSON array, serialized stably: object keys
+ * are sorted (so `{ a, b }` and `{ b, a }` are the same key), and any part longer than 64
+ * characters once serialized is replaced by a hash of it, to keep keys short. Throws a
+ * `TypeError` for a part that contains itself.
+ *
+ * @param key - The key to serialize.
+ * @returns The string key, e.g. `["user",42]`.
+ *
+ * @example
+ * ```ts
+ * serializeCacheKey(["todos", { status: "open", page: 2 }]) // '["todos",{"page":2,"status":"open"}]'
+ * serializeCacheKey('["todos"]') // '\\["todos"]'
+ * ```
+ *
+ * @public
+ */
+export function serializeCacheKey(key: CacheKey): string {
+    if (typeof key === "string") return key.startsWith("[") || key.startsWith("\\") ? `\\${key}` : key
+    const parts = key.map(part => {
+        const serialized = stableStringify(part)
+        return serialized.length > MAX_CACHE_KEY_PART_LENGTH ? JSON.stringify(`#${hashString(serialized)}`) : serialized
+    })
+    return `[${parts.join(",")}]`
+}
+
+/**
+ * Checks whether the serialized `key` starts with `prefix` (see `invalidatePrefix`).
+ *
+ * @internal
+ */
+function cacheKeyHasPrefix(key: string, prefix: CacheKey): boolean {
+    // Only array keys start with `[`: string keys that would are escaped
+    const isArrayKey = key.startsWith("[")
+    if (typeof prefix === "string") {
+        if (!isArrayKey) return key.startsWith(serializeCacheKey(prefix))
+        // An array key matches through its first part, if that's a string
+        try {
+            const first: unknown = JSON.parse(key)[0]
+            return typeof first === "string" && first.startsWith(prefix)
+        } catch {
+            return false
         }
     }
+    if (!isArrayKey) return false
+    if (prefix.length === 0) return true
+    const serialized = serializeCacheKey(prefix)
+    return key === serialized || key.startsWith(serialized.slice(0, -1) + ",")
 }
 
 /**
- * Opens (and initializes) an IndexedDB database named "myReactCacheDB" with an object store "idbCache".
+ * Resolves a `CacheKeyOption` against the hook's dependencies, and serializes it.
  *
  * @internal
- * @returns A promise resolving to the opened IDBDatabase.
  */
-function openCacheDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open("myReactCacheDB", 1)
-        request.onupgradeneeded = () => {
-            const db = request.result
-            if (!db.objectStoreNames.contains("idbCache")) {
-                db.createObjectStore("idbCache")
-            }
-        }
-        request.onsuccess = () => resolve(request.result)
-        request.onerror = () => reject(request.error)
-    })
+function resolveCacheKey(key: CacheKeyOption, dependencies: DependencyList): string {
+    return serializeCacheKey(typeof key === "function" ? key(...dependencies) : key)
 }
 
 /**
- * Reads an item from the "idbCache" store in our "myReactCacheDB" IndexedDB.
+ * `JSON.stringify`, with object keys sorted, and `Map`s, `Set`s and `BigInt`s given a stable form.
  *
  * @internal
+ * @param ancestors - The objects being serialized around `value`, to catch cycles.
  */
-async function readFromIndexedDB<T>(key: string): Promise<T | undefined> {
-    const db = await openCacheDB()
-    return new Promise<T | undefined>((resolve, reject) => {
-        const tx = db.transaction("idbCache", "readonly")
-        const store = tx.objectStore("idbCache")
-        const getReq = store.get(key)
-        getReq.onsuccess = () => resolve(getReq.result)
-        getReq.onerror = () => reject(getReq.error)
-    })
+function stableStringify(value: unknown, ancestors: Set<object> = new Set()): string {
+    if (value === undefined || typeof value === "function" || typeof value === "symbol") return "null"
+    if (typeof value === "bigint") return JSON.stringify(`${value}n`)
+    if (value === null || typeof value !== "object") return JSON.stringify(value)
+    if (ancestors.has(value)) {
+        // Like `JSON.stringify`, rather than overflowing the stack
+        throw new TypeError("Can't serialize a cache key that contains itself")
+    }
+    ancestors.add(value)
+    try {
+        const nested = (part: unknown) => stableStringify(part, ancestors)
+        if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+            return nested((value as { toJSON(): unknown }).toJSON())
+        }
+        if (Array.isArray(value)) return `[${value.map(nested).join(",")}]`
+        if (value instanceof Set) return `[${[...value].map(nested).sort().join(",")}]`
+        if (value instanceof Map) {
+            const entries = [...value].map(([k, v]) => `[${nested(k)},${nested(v)}]`)
+            return `[${entries.sort().join(",")}]`
+        }
+        const fields = Object.keys(value)
+            .sort()
+            .filter(field => {
+                const v = (value as Record<string, unknown>)[field]
+                return v !== undefined && typeof v !== "function" && typeof v !== "symbol"
+            })
+            .map(field => `${JSON.stringify(field)}:${nested((value as Record<string, unknown>)[field])}`)
+        return `{${fields.join(",")}}`
+    } finally {
+        ancestors.delete(value)
+    }
 }
 
 /**
- * Writes an item to the "idbCache" store in our "myReactCacheDB" IndexedDB.
+ * A fast, non-cryptographic 53-bit string hash (cyrb53), in base 36.
  *
  * @internal
  */
-async function writeToIndexedDB<T>(key: string, data: T): Promise<void> {
-    const db = await openCacheDB()
-    return new Promise<void>((resolve, reject) => {
-        const tx = db.transaction("idbCache", "readwrite")
-        const store = tx.objectStore("idbCache")
-        const putReq = store.put(data, key)
-        putReq.onsuccess = () => resolve()
-        putReq.onerror = () => reject(putReq.error)
-    })
+function hashString(value: string): string {
+    let h1 = 0xdeadbeef
+    let h2 = 0x41c6ce57
+    for (let i = 0; i < value.length; i++) {
+        const char = value.charCodeAt(i)
+        h1 = Math.imul(h1 ^ char, 2654435761)
+        h2 = Math.imul(h2 ^ char, 1597334677)
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
 }
 
 // -------------------------------------------------------------------
-// Options for useLoadable
+// Cache stores
 // -------------------------------------------------------------------
 
 /**
- * The options object for `useLoadable`.
+ * The names of the cache stores that ship with the library.
  *
- * @typeParam T - The data type we expect to load.
+ * @public
+ */
+export type CacheStoreName = "memory" | "localStorage" | "indexedDB"
+
+/**
+ * A storage backend for cached entries.
+ *
+ * @remarks
+ * Implement this to cache somewhere other than the built-in stores, e.g. `sessionStorage`,
+ * a server-side `Map` during SSR, or a fake in tests. Every method is async so that
+ * remote or IndexedDB-like backends fit the same shape.
+ *
+ * @example
+ * ```ts
+ * const sessionStore = new WebStorageCacheStore(() => window.sessionStorage)
+ * useLoadable(fetchUser, [], { cache: { key: "user", store: sessionStore } })
+ * ```
  *
  * @public
  */
-export interface UseLoadableOptions<T = any> {
+export interface CacheStore {
     /**
-     * A prefetched loadable value, if available (used instead of calling the fetcher).
+     * Returns the entry stored under `key`, or `undefined` if there is none.
+     * Rejects with a `SyntaxError` (as `JSON.parse` throws) if the entry can't be parsed: readers
+     * then discard it as corrupt. Any other rejection counts as a failed read, and keeps the entry.
      */
-    prefetched?: Loadable<T>
+    get(key: string): Promise<CacheEntry<unknown> | undefined>
     /**
-     * An optional callback for load errors. Called with the raw error object.
+     * Stores `entry` under `key`, replacing any previous entry.
      */
-    onError?: (error: unknown) => void
+    set(key: string, entry: CacheEntry<unknown>): Promise<void>
     /**
-     * If true, once we have a loaded value, do **not** revert to `loading`
-     * on subsequent fetches; instead, keep the old value until the new fetch
-     * finishes or fails.
+     * Removes the entry stored under `key`, if any.
      */
-    hideReload?: boolean
+    delete(key: string): Promise<void>
     /**
-     * Caching configuration. Can be:
-     * - A string: used as the cache key (store defaults to `"localStorage"`).
-     * - An object: `{ key: string, store?: "memory" | "localStorage" | "indexedDB" }`.
+     * Lists the keys of every entry currently in the store.
      */
-    cache?: string | CacheOption
+    keys(): Promise<string[]>
+    /**
+     * Removes every entry from the store.
+     */
+    clear(): Promise<void>
 }
 
-// -------------------------------------------------------------------
-// A custom hook for state with timestamps
-// -------------------------------------------------------------------
+/**
+ * Limits for a `MemoryCacheStore`. Once one is exceeded, the least recently used entries are evicted.
+ *
+ * @public
+ */
+export interface MemoryCacheStoreOptions {
+    /**
+     * How many entries to keep at most. Defaults to `Infinity`.
+     */
+    maxEntries?: number
+    /**
+     * Roughly how many bytes the entries may take up, estimated from their JSON. Defaults to `Infinity`.
+     */
+    maxBytes?: number
+}
 
 /**
- * A hook that manages a piece of state (`T`) alongside a timestamp, allowing you
- * to ignore stale updates with older timestamps.
+ * A `CacheStore` backed by a plain in-memory `Map` (fast, but resets on page refresh).
  *
  * @remarks
- * Internally, it stores the current `value` plus a `loadStart` timestamp. Each time
- * you set a new value, you can provide an optional new timestamp. If that timestamp
- * is older than the current state's `loadStart`, the update is ignored.
- *
- * @param initial - The initial state value.
- * @returns A tuple: `[value, setValue, loadStart]`.
+ * With `maxEntries` or `maxBytes` set, the least recently used entries (read or written)
+ * are evicted to stay within them. An entry too large to fit on its own isn't kept at all.
  *
  * @example
  * ```ts
- * const [myValue, setMyValue, lastUpdated] = useLatestState(0)
- *
- * function handleUpdate(newVal: number) {
- *   // We'll pass a timestamp
- *   setMyValue(newVal, performance.now())
- * }
+ * setCacheStore("memory", new MemoryCacheStore({ maxEntries: 200, maxBytes: 5_000_000 }))
  * ```
  *
  * @public
  */
-export function useLatestState<T>(
-    initial: T
-): [T, (value: T | ((current: T) => T), loadStart?: TimeStamp) => void, TimeStamp] {
-    const [value, setValue] = useState<{
-        value: T
-        loadStart: TimeStamp
-    }>({
-        value: initial,
-        loadStart: 0,
-    })
+export class MemoryCacheStore implements CacheStore {
+    // A Map iterates in insertion order, so re-inserting on use keeps the least recently used first
+    private readonly entries = new Map<string, { entry: CacheEntry<unknown>; bytes: number }>()
+    private bytes = 0
 
-    function updateValue(
-        newValue: T | ((current: T) => T),
-        loadStart: TimeStamp = currentTimestamp()
-    ) {
-        setValue(current => {
-            if (current.loadStart > loadStart) {
-                // Ignore older updates
-                return current
-            }
-            const nextValue =
-                typeof newValue === "function"
-                    ? (newValue as (c: T) => T)(current.value)
-                    : newValue
-            return {
-                value: nextValue,
-                loadStart,
-            }
-        })
+    /**
+     * Creates a new `MemoryCacheStore`.
+     *
+     * @param options - The limits to keep within. Unlimited by default.
+     */
+    constructor(private readonly options: MemoryCacheStoreOptions = {}) {}
+
+    async get(key: string): Promise<CacheEntry<unknown> | undefined> {
+        const stored = this.entries.get(key)
+        if (!stored) return undefined
+        this.entries.delete(key)
+        this.entries.set(key, stored)
+        return stored.entry
     }
 
-    return [value.value, updateValue, value.loadStart]
-}
+    async set(key: string, entry: CacheEntry<unknown>): Promise<void> {
+        this.remove(key)
+        const bytes = this.options.maxBytes === undefined ? 0 : estimateBytes(entry)
+        this.entries.set(key, { entry, bytes })
+        this.bytes += bytes
+        this.evict()
+    }
 
-// -------------------------------------------------------------------
-// For debugging (optional)
-// -------------------------------------------------------------------
+    async delete(key: string): Promise<void> {
+        this.remove(key)
+    }
 
-/**
- * A Set of timestamps indicating which requests are currently in-flight.
- *
- * @remarks
- * This is used internally for debugging and to signal "prerenderReady" when no requests remain.
- * Attach it to `window` in dev environments if desired.
- *
- * @internal
- */
-const currentlyLoading = new Set<number>()
-// @ts-ignore
-if (typeof window !== "undefined") {
-    ;(window as any).currentlyLoading = currentlyLoading
-}
+    async keys(): Promise<string[]> {
+        return [...this.entries.keys()]
+    }
 
-// -------------------------------------------------------------------
-// Overloads for useLoadable
-// -------------------------------------------------------------------
+    async clear(): Promise<void> {
+        this.entries.clear()
+        this.bytes = 0
+    }
 
-/**
- * Overload: `useLoadable(waitable, readyCondition, fetcher, dependencies, optionsOrOnError?)`
- */
-export function useLoadable<W, R>(
-    waitable: W,
-    readyCondition: (loaded: W) => boolean,
-    fetcher: (loaded: W, abort: AbortSignal) => Promise<R>,
-    dependencies: DependencyList,
-    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
-): Loadable<R>
+    private remove(key: string) {
+        const stored = this.entries.get(key)
+        if (!stored) return
+        this.entries.delete(key)
+        this.bytes -= stored.bytes
+    }
+
+    /**
+     * Drops the least recently used entries until both limits hold.
+     */
+    private evict() {
+        const { maxEntries = Infinity, maxBytes = Infinity } = this.options
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= maxEntries && this.bytes <= maxBytes) return
+            this.remove(key)
+        }
+    }
+}
 
 /**
- * Overload: `useLoadable(fetcher, deps, options?)`
+ * Estimates how much memory an entry takes up, from the length of its JSON (two bytes per character).
+ *
+ * @internal
+ * @returns The estimate, or `0` for values JSON can't represent.
  */
-export function useLoadable<T>(
-    fetcher: Fetcher<T>,
-    deps: DependencyList,
-    options?: UseLoadableOptions<T>
-): Loadable<T>
+function estimateBytes(entry: CacheEntry<unknown>): number {
+    try {
+        return (JSON.stringify(entry)?.length ?? 0) * 2
+    } catch {
+        return 0
+    }
+}
 
 /**
- * The core hook that returns a `Loadable<T>` by calling an async fetcher.
+ * A `CacheStore` backed by a Web Storage object (`localStorage` by default), storing entries as JSON.
  *
  * @remarks
- * Has two main usage patterns:
- * 1. **Waitable** form: You pass a "waitable" value plus a `readyCondition`, and a `fetcher`.
- *    - The effect only runs when `readyCondition(waitable)` is true.
- *    - If `hideReload` is false, it will revert to loading each time the waitable changes.
+ * Keys are namespaced with `prefix`, so `keys()` and `clear()` only ever touch entries
+ * written by this store. `get` rejects if the stored JSON is corrupt.
  *
- * 2. **Simple** form: You pass just a `fetcher`, dependencies, and optional `UseLoadableOptions`.
- *    - The fetcher is called whenever dependencies change.
- *    - The result is stored in a loadable: `loading` until success or `LoadError` on failure.
+ * With a `legacyPrefix`, `get` falls back to a value kept under that prefix instead (as version 2
+ * kept them, bare and with no prefix) and moves it under `prefix`, as an entry of timestamp `0`.
+ * It's then stale straight away, so hooks show it while they refetch.
  *
- * Caching:
- * - If `cache` is provided (string or `{ key, store }`), it tries to read from that cache first.
- *   If found, returns it immediately. Then (optionally) re-fetches in the background, or
- *   according to `hideReload`.
+ * When the storage is full, `set` evicts this store's oldest entries until the new one fits,
+ * and only rejects once there are none left to evict.
  *
- * @typeParam T - The successful data type when using the simple form.
- * @typeParam W - The waitable type (for advanced usage).
- * @typeParam R - The successful data type when using the waitable form.
+ * Values that JSON can't represent (`Date`, `Map`, `Set`, `BigInt`...) need a `serializer`
+ * (see `CacheOption`).
  *
  * @public
  */
-export function useLoadable<T, W, R>(
-    fetcherOrWaitable: Fetcher<T> | W,
-    depsOrReadyCondition: DependencyList | ((loaded: W) => boolean),
-    optionsOrFetcher?:
-        | UseLoadableOptions<T>
-        | ((loaded: W, abort: AbortSignal) => Promise<R>),
-    dependencies: DependencyList = [],
-    lastParam?: ((e: unknown) => void) | UseLoadableOptions<R>
-): Loadable<T> | Loadable<R> {
-    // ============================
-    // CASE 1: waitable + readyCondition + fetcher
-    // ============================
-    if (typeof depsOrReadyCondition === "function") {
-        const waitable = fetcherOrWaitable as W
-        const readyCondition = depsOrReadyCondition as (loaded: W) => boolean
-        const fetcher = optionsOrFetcher as (
-            loaded: W,
-            abort: AbortSignal
-        ) => Promise<R>
-
-        let onErrorCb: ((e: unknown) => void) | undefined
-        let hideReload = false
-        let cacheObj: ReturnType<typeof parseCacheOption> = {
-            key: undefined,
-            store: "localStorage",
-        }
-
-        if (typeof lastParam === "function") {
-            onErrorCb = lastParam
-        } else if (lastParam && typeof lastParam === "object") {
-            onErrorCb = lastParam.onError
-            hideReload = !!lastParam.hideReload
-            cacheObj = parseCacheOption(lastParam.cache)
-        }
-
-        const [value, setValue] = useLatestState<Loadable<R>>(loading)
-        const abort = useAbort()
-
-        const ready = readyCondition(waitable)
+export class WebStorageCacheStore implements CacheStore {
+    /**
+     * Creates a new `WebStorageCacheStore`.
+     *
+     * @param getStorage - Returns the `Storage` to use. Resolved lazily, on every call.
+     * @param prefix - Prepended to every key. Defaults to `"loadable:"`.
+     * @param legacyPrefix - Where entries were kept before, to move them from when read.
+     */
+    constructor(
+        private readonly getStorage: () => Storage = () => window.localStorage,
+        private readonly prefix: string = "loadable:",
+        private readonly legacyPrefix?: string
+    ) {}
 
-        useEffect(() => {
-            const startTime = currentTimestamp()
+    async get(key: string): Promise<CacheEntry<unknown> | undefined> {
+        const storage = this.getStorage()
+        const json = storage.getItem(this.prefix + key)
+        if (!json) return this.legacyPrefix === undefined ? undefined : this.moveLegacyEntry(storage, key)
+        // Corrupt JSON throws a `SyntaxError`, so that readers can report it
+        return JSON.parse(json)
+    }
 
-            // If hideReload=false or not yet loaded, revert to 'loading'
-            if (!hideReload || !hasLoaded(value)) {
-                setValue(loading, startTime)
+    async set(key: string, entry: CacheEntry<unknown>): Promise<void> {
+        const storage = this.getStorage()
+        const json = JSON.stringify(entry)
+        // Oldest first, only listed once the storage turns out to be full
+        let evictable: string[] | undefined
+        for (;;) {
+            try {
+                storage.setItem(this.prefix + key, json)
+                return
+            } catch (e) {
+                if (!isQuotaExceededError(e)) throw e
+                evictable ??= (await this.keysByAge()).filter(k => k !== key)
+                const oldest = evictable.shift()
+                // Nothing of ours left to make room with
+                if (oldest === undefined) throw e
+                storage.removeItem(this.prefix + oldest)
             }
+        }
+    }
 
-            if (ready) {
-                // Before fetching, try reading from cache (if provided)
-                if (cacheObj.key) {
-                    // Attempt to read
-                    ;(async () => {
-                        const cachedData = await readCache<R>(
-                            cacheObj.key!,
-                            cacheObj.store
-                        )
-                        if (cachedData !== undefined) {
-                            // We found a valid cached value
-                            // You could do stale-while-revalidate or just set it:
-                            setValue(cachedData, startTime)
-                        }
-                        doFetch()
-                    })()
-                } else {
-                    doFetch()
-                }
+    async delete(key: string): Promise<void> {
+        const storage = this.getStorage()
+        storage.removeItem(this.prefix + key)
+        // Or an invalidated value would come back on the next read
+        if (this.legacyPrefix !== undefined) storage.removeItem(this.legacyPrefix + key)
+    }
 
-                function doFetch() {
-                    currentlyLoading.add(startTime)
-                    const signal = abort()
-                    fetcher(waitable, signal)
-                        .then(result => {
-                            // On success, write to cache if key
-                            if (cacheObj.key) {
-                                writeCache(cacheObj.key, result, cacheObj.store).catch(
-                                    console.error
-                                )
-                            }
-                            setValue(result, startTime)
-                        })
-                        .catch(e => {
-                            onErrorCb?.(e)
-                            setValue(new LoadError(e), startTime)
-                        })
-                        .finally(() => {
-                            currentlyLoading.delete(startTime)
-                            if (
-                                currentlyLoading.size === 0 &&
-                                typeof window !== "undefined" &&
-                                "prerenderReady" in window
-                            ) {
-                                ;(window as any).prerenderReady = true
-                            }
-                        })
-                }
+    async keys(): Promise<string[]> {
+        const storage = this.getStorage()
+        const keys: string[] = []
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i)
+            if (key !== null && key.startsWith(this.prefix)) {
+                keys.push(key.slice(this.prefix.length))
             }
-
-            return () => {
-                abort()
-                currentlyLoading.delete(startTime)
+        }
+        return keys
+    }
+
+    async clear(): Promise<void> {
+        const storage = this.getStorage()
+        for (const key of await this.keys()) {
+            storage.removeItem(this.prefix + key)
+        }
+    }
+
+    /**
+     * Moves the value kept for `key` under `legacyPrefix` (if any) under `prefix`, as an entry.
+     */
+    private moveLegacyEntry(storage: Storage, key: string): CacheEntry<unknown> | undefined {
+        const legacyKey = this.legacyPrefix + key
+        const json = storage.getItem(legacyKey)
+        if (!json) return undefined
+        let stored: unknown
+        try {
+            stored = JSON.parse(json)
+        } catch {
+            // Not something we wrote, so leave it alone
+            return undefined
+        }
+        const entry: CacheEntry<unknown> = { value: stored, timestamp: 0 }
+        storage.removeItem(legacyKey)
+        try {
+            storage.setItem(this.prefix + key, JSON.stringify(entry))
+        } catch {
+            // Full: the entry is served this once, then refetched
+        }
+        return entry
+    }
+
+    /**
+     * Lists our keys, from the oldest entry to the newest. Unreadable entries count as the oldest.
+     */
+    private async keysByAge(): Promise<string[]> {
+        const timestamps = new Map<string, number>()
+        for (const key of await this.keys()) {
+            const entry = await this.get(key).catch(() => undefined)
+            timestamps.set(key, isCacheEntry(entry) ? entry.timestamp : -Infinity)
+        }
+        // Compared rather than subtracted: `-Infinity - -Infinity` is `NaN`, which breaks the sort
+        return [...timestamps.keys()].sort((a, b) => {
+            const timeA = timestamps.get(a)!
+            const timeB = timestamps.get(b)!
+            return timeA < timeB ? -1 : timeA > timeB ? 1 : 0
+        })
+    }
+}
+
+/**
+ * Checks whether a Web Storage write failed because the storage is full.
+ *
+ * @internal
+ */
+function isQuotaExceededError(e: unknown): boolean {
+    // Matched by name, as the `DOMException` may come from another realm; Firefox used to name it differently
+    const name = (e as { name?: unknown } | null)?.name
+    return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED"
+}
+
+/**
+ * A `CacheStore` backed by an IndexedDB object store. Can hold larger data than Web Storage.
+ *
+ * @public
+ */
+export class IndexedDBCacheStore implements CacheStore {
+    private db: Promise<IDBDatabase> | undefined
+
+    /**
+     * Creates a new `IndexedDBCacheStore`.
+     *
+     * @param databaseName - The IndexedDB database to open. Defaults to `"myReactCacheDB"`.
+     * @param storeName - The object store inside that database. Defaults to `"idbCache"`.
+     */
+    constructor(
+        private readonly databaseName: string = "myReactCacheDB",
+        private readonly storeName: string = "idbCache"
+    ) {}
+
+    async get(key: string): Promise<CacheEntry<unknown> | undefined> {
+        return this.request("readonly", store => store.get(key))
+    }
+
+    async set(key: string, entry: CacheEntry<unknown>): Promise<void> {
+        await this.request("readwrite", store => store.put(entry, key))
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request("readwrite", store => store.delete(key))
+    }
+
+    async keys(): Promise<string[]> {
+        const keys = await this.request("readonly", store => store.getAllKeys())
+        return keys.map(String)
+    }
+
+    async clear(): Promise<void> {
+        await this.request("readwrite", store => store.clear())
+    }
+
+    /**
+     * Opens (and initializes) the database on first use.
+     */
+    private open(): Promise<IDBDatabase> {
+        this.db ??= new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.databaseName, 1)
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(this.storeName)) {
+                    db.createObjectStore(this.storeName)
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+        return this.db
+    }
+
+    /**
+     * Runs a single request against the object store in its own transaction.
+     */
+    private async request<T>(
+        mode: IDBTransactionMode,
+        makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const db = await this.open()
+        return new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(this.storeName, mode)
+            const req = makeRequest(tx.objectStore(this.storeName))
+            req.onsuccess = () => resolve(req.result)
+            req.onerror = () => reject(req.error)
+        })
+    }
+}
+
+/**
+ * The shared instances behind the built-in store names.
+ *
+ * @internal
+ */
+const builtInCacheStores: Record<CacheStoreName, CacheStore> = {
+    memory: new MemoryCacheStore({ maxEntries: 1000 }),
+    // Version 2 kept values under their bare keys
+    localStorage: new WebStorageCacheStore(() => window.localStorage, "loadable:", ""),
+    indexedDB: new IndexedDBCacheStore(),
+}
+
+/**
+ * Replaces the store behind a built-in store name, e.g. to change the limits of `"memory"`.
+ *
+ * @remarks
+ * Entries in the previous store are left where they are. By default, `"memory"` keeps the
+ * 1000 most recently used entries.
+ *
+ * @param name - The built-in store name.
+ * @param store - The store every use of `name` should go to from now on.
+ *
+ * @example
+ * ```ts
+ * setCacheStore("memory", new MemoryCacheStore({ maxBytes: 20_000_000 }))
+ * ```
+ *
+ * @public
+ */
+export function setCacheStore(name: CacheStoreName, store: CacheStore): void {
+    builtInCacheStores[name] = store
+}
+
+/**
+ * Stands in for the built-in stores on the server outside of a render: nothing is kept.
+ *
+ * @internal
+ */
+const noCacheStore: CacheStore = {
+    get: async () => undefined,
+    set: async () => {},
+    delete: async () => {},
+    keys: async () => [],
+    clear: async () => {},
+}
+
+/**
+ * Resolves a built-in store name to its shared instance; custom stores are returned as-is.
+ *
+ * @internal
+ */
+function resolveCacheStore(store: CacheStoreName | CacheStore): CacheStore {
+    const resolved = typeof store === "string" ? builtInCacheStores[store] : store
+    if (typeof store === "string" && typeof window === "undefined") {
+        // Under Node there's no localStorage or IndexedDB, and a module-level cache would be
+        // shared between requests: use the current server render's own store instead, or none.
+        // It's dropped along with its render, so it isn't tracked in `usedCacheStores`
+        return activeServerRender?.store ?? noCacheStore
+    }
+    if (!usedCacheStoreRefs.has(resolved)) {
+        const ref = new WeakRef(resolved)
+        usedCacheStoreRefs.set(resolved, ref)
+        usedCacheStores.add(ref)
+    }
+    return resolved
+}
+
+/**
+ * Every store that has been read from or written to, so invalidation knows where to look.
+ *
+ * @remarks
+ * Held weakly, so that stores nothing else references anymore (like one created inline in a
+ * hook's options, on every render) don't pile up. The built-in stores are always referenced.
+ *
+ * @internal
+ */
+const usedCacheStores = new Set<WeakRef<CacheStore>>()
+
+/**
+ * The entry of each store in `usedCacheStores`, so it's only added once.
+ *
+ * @internal
+ */
+const usedCacheStoreRefs = new WeakMap<CacheStore, WeakRef<CacheStore>>()
+
+/**
+ * Lists the stores in `usedCacheStores` that are still around, forgetting the others.
+ *
+ * @internal
+ */
+function liveCacheStores(): CacheStore[] {
+    const stores: CacheStore[] = []
+    for (const ref of usedCacheStores) {
+        const store = ref.deref()
+        if (store) stores.push(store)
+        else usedCacheStores.delete(ref)
+    }
+    return stores
+}
+
+// -------------------------------------------------------------------
+// Our caching utilities
+// -------------------------------------------------------------------
+
+/**
+ * Checks whether a value read back from a store has the `CacheEntry` shape.
+ *
+ * @remarks
+ * Anything else (e.g. a raw value written by an older version of this library) is corrupt.
+ *
+ * @internal
+ */
+function isCacheEntry<T>(value: unknown): value is CacheEntry<T> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        "value" in value &&
+        typeof (value as CacheEntry<T>).timestamp === "number"
+    )
+}
+
+/**
+ * Decodes an entry read back from a store: checks its version (migrating it if needed) and deserializes it.
+ *
+ * @internal
+ * @returns The decoded entry, `undefined` for an entry of another version that can't be migrated,
+ * and whether it was migrated (so it can be written back). Throws if the entry is corrupt.
+ */
+function decodeCacheEntry<T>(
+    stored: unknown,
+    format: CacheFormat
+): { entry: CacheEntry<T>; migrated: boolean } | undefined {
+    if (!isCacheEntry<unknown>(stored)) {
+        throw new Error("Not a cache entry")
+    }
+    let value = stored.value
+    const migrated = stored.version !== format.version
+    if (migrated) {
+        if (!format.migrate) return undefined
+        value = format.migrate(value, stored.version)
+    }
+    if (format.serializer) {
+        value = format.serializer.deserialize(value)
+    }
+    return { entry: { value: value as T, timestamp: stored.timestamp, version: format.version }, migrated }
+}
+
+/**
+ * Encodes a value for a store: serializes it and stamps it with the current time and `version`.
+ *
+ * @internal
+ */
+function encodeCacheEntry(value: unknown, format: CacheFormat, timestamp = currentTimestamp()): CacheEntry<unknown> {
+    const entry: CacheEntry<unknown> = {
+        value: format.serializer ? format.serializer.serialize(value) : value,
+        timestamp,
+    }
+    if (format.version !== undefined) {
+        entry.version = format.version
+    }
+    return entry
+}
+
+/**
+ * Reports an entry that can't be read back, and deletes it if the reader said how it's encoded.
+ *
+ * @internal
+ */
+function discardCorruptEntry(
+    store: CacheStore,
+    key: string,
+    error: unknown,
+    format: CacheFormat | undefined
+): undefined {
+    format?.onCorrupt?.(key, error)
+    // Without a format, the entry may just be encoded in a way this reader doesn't know about
+    if (format) store.delete(key).catch(() => {})
+    return undefined
+}
+
+/**
+ * Reads an entry from the specified cache store.
+ *
+ * @remarks
+ * This never rejects: anything but a usable entry is treated as a miss.
+ * - Entries written under another `format.version` are migrated with `format.migrate`. Without
+ *   it, they're a miss but stay in the store, as another reader may still know their version.
+ * - An entry that can't be read back (unparseable, not an entry, or rejected by `deserialize`
+ *   or `migrate`) is reported to `format.onCorrupt`, and deleted if a `format` was given.
+ * - A store that fails to read is a miss, and the entry is left alone: the failure may not last.
+ *
+ * @param key - The cache key: a string, or an array of parts (see `serializeCacheKey`).
+ * @param store - A built-in store name or a custom `CacheStore`. Defaults to `"localStorage"`.
+ * @param format - The `version`, `serializer`, `migrate` and `onCorrupt` the entry was cached with, if any.
+ * @returns The cached entry or `undefined` if not found.
+ *
+ * @example
+ * ```ts
+ * const entry = await readCache<Todo[]>("todos")
+ * console.log(entry?.value, "written at", entry?.timestamp)
+ * ```
+ *
+ * @public
+ */
+export async function readCache<T>(
+    key: CacheKey,
+    store: CacheStoreName | CacheStore = "localStorage",
+    format?: CacheFormat
+): Promise<CacheEntry<T> | undefined> {
+    return readCacheEntry<T>(serializeCacheKey(key), store, format)
+}
+
+/**
+ * `readCache`, for a key that's already serialized.
+ *
+ * @internal
+ */
+async function readCacheEntry<T>(
+    storeKey: string,
+    store: CacheStoreName | CacheStore,
+    format: CacheFormat | undefined
+): Promise<CacheEntry<T> | undefined> {
+    const resolved = resolveCacheStore(store)
+    let stored: unknown
+    try {
+        stored = await resolved.get(storeKey)
+    } catch (e) {
+        // Stores throw a `SyntaxError` for an unparseable entry; anything else is a failed read
+        if (!(e instanceof SyntaxError)) return undefined
+        return discardCorruptEntry(resolved, storeKey, e, format)
+    }
+    if (stored === undefined) return undefined
+    let decoded: { entry: CacheEntry<T>; migrated: boolean } | undefined
+    try {
+        decoded = decodeCacheEntry<T>(stored, format ?? {})
+    } catch (e) {
+        return discardCorruptEntry(resolved, storeKey, e, format)
+    }
+    if (!decoded) return undefined
+    if (decoded.migrated) {
+        // Save the migration, keeping the entry's age
+        resolved
+            .set(storeKey, encodeCacheEntry(decoded.entry.value, format ?? {}, decoded.entry.timestamp))
+            .catch(() => {})
+    }
+    return decoded.entry
+}
+
+/**
+ * Writes data to the specified cache store, stamped with the current time.
+ *
+ * @remarks
+ * This only touches the store. Use `setCached` to also update mounted hooks.
+ *
+ * @param key - The cache key: a string, or an array of parts (see `serializeCacheKey`).
+ * @param data - The data to store.
+ * @param store - A built-in store name or a custom `CacheStore`. Defaults to `"localStorage"`.
+ * @param format - The `version` and `serializer` to write the entry with, if any.
+ *
+ * @example
+ * ```ts
+ * // Optimistically add a todo before the server confirms it
+ * await writeCache("todos", [...todos, newTodo])
+ * ```
+ *
+ * @public
+ */
+export async function writeCache<T>(
+    key: CacheKey,
+    data: T,
+    store: CacheStoreName | CacheStore = "localStorage",
+    format: CacheFormat = {}
+): Promise<void> {
+    await resolveCacheStore(store).set(serializeCacheKey(key), encodeCacheEntry(data, format))
+}
+
+/**
+ * Reads the entry for `cache.key` and classifies it against `staleTime` / `maxAge`.
+ *
+ * @internal
+ * @param cache - The parsed cache option.
+ * @param source - Who is reading, for the inspector's `cache-hit` event.
+ * @returns `undefined` on a miss or an expired entry, otherwise the value and whether it's still fresh.
+ */
+async function readUsableCache<T>(
+    cache: ParsedCacheOption,
+    source?: LoadSource
+): Promise<{ value: T; fresh: boolean } | undefined> {
+    const key = cache.key
+    if (!key) return undefined
+    const entry = await readCacheEntry<T>(key, cache.store, cache)
+    if (!entry) return undefined
+    const age = currentTimestamp() - entry.timestamp
+    if (age >= cache.maxAge) {
+        // Expired: behave as if nothing was cached
+        return undefined
+    }
+    const fresh = age < cache.staleTime
+    emitLoadEvent({ type: "cache-hit", key, fresh, label: source?.label, dependencies: source?.dependencies })
+    return { value: entry.value, fresh }
+}
+
+// -------------------------------------------------------------------
+// In-flight request deduplication
+// -------------------------------------------------------------------
+
+/**
+ * A fetch that is currently running on behalf of every hook sharing its cache key.
+ *
+ * @internal
+ */
+interface InFlightRequest {
+    promise: Promise<unknown>
+    controller: AbortController
+    progressListeners: Set<ProgressReporter>
+    lastProgress?: LoadProgress | number
+    subscribers: number
+    /** Whether the fetch got its slot from the scheduler. */
+    started: boolean
+    startListeners: Set<() => void>
+}
+
+/**
+ * The pending fetches, keyed by cache key. Server renders keep their own (see `ServerRender`).
+ *
+ * @internal
+ */
+const inFlightRequests = new Map<string, InFlightRequest>()
+
+/**
+ * Runs `fetcher` for `key`, or attaches to the fetch already in flight for that key.
+ *
+ * @remarks
+ * Only completed fetches are written to the cache, so without this every hook mounting
+ * with the same key at the same time would miss the cache and fire its own request.
+ *
+ * Each caller's `signal` only detaches that caller: its promise rejects with the abort
+ * reason, while the shared fetch keeps going for the others. The shared fetch itself is
+ * aborted once every subscriber has aborted.
+ *
+ * @internal
+ * @param requests - The registry to share the fetch through.
+ * @param key - The cache key the fetch is shared under.
+ * @param fetcher - Starts the shared fetch. Called with a signal owned by the registry, and a
+ * callback for when the fetch gets its slot from the scheduler.
+ * @param signal - The caller's own `AbortSignal`.
+ * @param onProgress - Receives the shared fetch's progress, starting with the latest report so far.
+ * @param onStart - Called once the shared fetch gets its slot, or straight away if it already has.
+ * @returns A promise settling with the shared fetch, or rejecting when `signal` aborts.
+ */
+function fetchDeduplicated<T>(
+    requests: Map<string, InFlightRequest>,
+    key: string,
+    fetcher: (signal: AbortSignal, onProgress: ProgressReporter, onStart: () => void) => Promise<T>,
+    signal: AbortSignal,
+    onProgress: ProgressReporter = () => {},
+    onStart: () => void = () => {}
+): Promise<T> {
+    // Don't start (or join) a fetch that nobody would handle the outcome of
+    if (signal.aborted) return Promise.reject(signal.reason)
+
+    let request = requests.get(key)
+    if (request) {
+        // Catch up on the progress reported so far
+        if (request.lastProgress !== undefined) onProgress(request.lastProgress)
+        request.progressListeners.add(onProgress)
+        if (request.started) onStart()
+        else request.startListeners.add(onStart)
+    } else {
+        const created: InFlightRequest = {
+            promise: Promise.resolve(),
+            controller: new AbortController(),
+            progressListeners: new Set([onProgress]),
+            subscribers: 0,
+            started: false,
+            startListeners: new Set([onStart]),
+        }
+        // Listeners are registered first, since the fetcher may report progress straight away
+        const report: ProgressReporter = progress => {
+            created.lastProgress = progress
+            created.progressListeners.forEach(listener => listener(progress))
+        }
+        const start = () => {
+            created.started = true
+            created.startListeners.forEach(listener => listener())
+            created.startListeners.clear()
+        }
+        created.promise = fetcher(created.controller.signal, report, start).finally(() => {
+            if (requests.get(key) === created) {
+                requests.delete(key)
+            }
+        })
+        requests.set(key, created)
+        request = created
+    }
+
+    const shared = request
+    shared.subscribers++
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            shared.progressListeners.delete(onProgress)
+            shared.startListeners.delete(onStart)
+            reject(signal.reason)
+            shared.subscribers--
+            if (shared.subscribers === 0) {
+                // Nobody is waiting anymore, so the next caller should start afresh
+                if (requests.get(key) === shared) {
+                    requests.delete(key)
+                }
+                shared.controller.abort(signal.reason)
+            }
+        }
+        signal.addEventListener("abort", onAbort, { once: true })
+        shared.promise
+            .then(result => resolve(result as T), reject)
+            .finally(() => {
+                signal.removeEventListener("abort", onAbort)
+                shared.progressListeners.delete(onProgress)
+                shared.startListeners.delete(onStart)
+            })
+    })
+}
+
+// -------------------------------------------------------------------
+// Cache subscriptions & invalidation
+// -------------------------------------------------------------------
+
+/**
+ * Describes a change to a cache key that mounted hooks should react to.
+ *
+ * @remarks
+ * - `"set"`: a new value was written; hooks re-render with it.
+ * - `"changed"`: another tab wrote a value we only have in the store; hooks re-read it.
+ * - `"invalidate"`: the entry was dropped; hooks refetch.
+ *
+ * @internal
+ */
+type CacheEvent =
+    | { type: "set"; key: string; value: unknown }
+    | { type: "changed"; key: string }
+    | { type: "invalidate"; key: string }
+
+/**
+ * The listeners of every mounted hook, keyed by the cache key they use.
+ *
+ * @internal
+ */
+const cacheListeners = new Map<string, Set<(event: CacheEvent) => void>>()
+
+/**
+ * Subscribes to changes of a single cache key.
+ *
+ * @internal
+ * @returns A function that unsubscribes.
+ */
+function subscribeToCacheKey(key: string, listener: (event: CacheEvent) => void): () => void {
+    let listeners = cacheListeners.get(key)
+    if (!listeners) {
+        listeners = new Set()
+        cacheListeners.set(key, listeners)
+    }
+    listeners.add(listener)
+    return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+            cacheListeners.delete(key)
+        }
+    }
+}
+
+/**
+ * Tells every hook subscribed to `event.key` about the change.
+ *
+ * @internal
+ */
+function notifyCacheListeners(event: CacheEvent) {
+    cacheListeners.get(event.key)?.forEach(listener => listener(event))
+}
+
+/**
+ * Writes a value to the cache and pushes it to every mounted hook using that key.
+ *
+ * @remarks
+ * Unlike `writeCache`, which only touches the store, mounted hooks re-render with the
+ * new value straight away (without refetching).
+ *
+ * @param key - The cache key: a string, or an array of parts (see `serializeCacheKey`).
+ * @param value - The new value.
+ * @param store - A built-in store name or a custom `CacheStore`. Defaults to `"localStorage"`.
+ * @param format - The `version` and `serializer` the hooks using `key` cache with, if any.
+ *
+ * @example
+ * ```ts
+ * await setCached("user", { ...user, name: "New name" })
+ * ```
+ *
+ * @public
+ */
+export async function setCached<T>(
+    key: CacheKey,
+    value: T,
+    store: CacheStoreName | CacheStore = "localStorage",
+    format?: CacheFormat
+): Promise<void> {
+    return setCachedFrom(undefined, serializeCacheKey(key), value, store, format)
+}
+
+/**
+ * `setCached`, on behalf of a hook: its label and dependencies go into the `cache-write` event.
+ *
+ * @internal
+ */
+async function setCachedFrom<T>(
+    source: LoadSource | undefined,
+    key: string,
+    value: T,
+    store: CacheStoreName | CacheStore,
+    format?: CacheFormat
+): Promise<void> {
+    hydratedEntries.delete(key)
+    notifyCacheListeners({ type: "set", key, value })
+    emitLoadEvent({ type: "cache-write", key, label: source?.label, dependencies: source?.dependencies })
+    await resolveCacheStore(store).set(key, encodeCacheEntry(value, format ?? {}))
+    // Only once the write has landed: tabs that can't clone the value re-read it from the store
+    broadcastCacheEvent({ type: "set", key, value })
+}
+
+/**
+ * Caches a hook's result in the background, if it has a cache key.
+ *
+ * @remarks
+ * A failed write (a full storage, a value the serializer rejects...) is only logged:
+ * it must never fail the load itself.
+ *
+ * @internal
+ */
+function cacheResult<T>(source: LoadSource, cache: ParsedCacheOption, value: T): void {
+    const key = cache.key
+    if (!key) return
+    setCachedFrom(source, key, value, cache.store, cache).catch(e => {
+        console.error(`Couldn't cache "${key}":`, e)
+    })
+}
+
+/**
+ * Drops the cached entry for `key` and makes every mounted hook using it refetch.
+ *
+ * @remarks
+ * The entry is deleted from every store that has been used so far and is still referenced
+ * (so create custom stores once, rather than inline in a hook's options), and any request
+ * still in flight for the key is no longer shared with new loads. Deleting is best effort:
+ * a store that fails to delete is skipped.
+ *
+ * @param key - The cache key to invalidate: a string, or an array of parts.
+ *
+ * @example
+ * ```ts
+ * await postTodo(todo)
+ * await invalidate("todos")
+ * ```
+ *
+ * @public
+ */
+export async function invalidate(key: CacheKey): Promise<void> {
+    await invalidateStoreKey(serializeCacheKey(key))
+}
+
+/**
+ * `invalidate`, for a key that's already serialized.
+ *
+ * @internal
+ */
+async function invalidateStoreKey(key: string): Promise<void> {
+    await invalidateInThisTab(key)
+    broadcastCacheEvent({ type: "invalidate", key })
+}
+
+/**
+ * `invalidate`, without telling other tabs (e.g. because one of them told us).
+ *
+ * @internal
+ */
+async function invalidateInThisTab(key: string): Promise<void> {
+    inFlightRequests.delete(key)
+    hydratedEntries.delete(key)
+    // Best effort: a store that can't delete (e.g. one that's gone offline) has nothing to report
+    await Promise.all(liveCacheStores().map(store => store.delete(key).catch(() => {})))
+    notifyCacheListeners({ type: "invalidate", key })
+}
+
+/**
+ * Invalidates every cache key matching `predicate` (see `invalidate`).
+ *
+ * @remarks
+ * Considers the keys in every store used so far (see `invalidate`), as well as the keys of mounted hooks.
+ *
+ * @param predicate - Decides, per key, whether to invalidate it.
+ *
+ * @example
+ * ```ts
+ * await invalidateWhere(key => key.startsWith("user/"))
+ * ```
+ *
+ * @public
+ */
+export async function invalidateWhere(predicate: (key: string) => boolean): Promise<void> {
+    const keys = new Set(cacheListeners.keys())
+    for (const store of liveCacheStores()) {
+        const storeKeys = await store.keys().catch(() => [])
+        storeKeys.forEach(key => keys.add(key))
+    }
+    await Promise.all([...keys].filter(predicate).map(invalidateStoreKey))
+}
+
+/**
+ * Invalidates every cache key starting with `prefix` (see `invalidate`).
+ *
+ * @remarks
+ * A string prefix matches every string key starting with it, and every array key whose first
+ * part is a string starting with it: `"user"` matches `"user/1"` and `["user", 1]`. An array
+ * prefix matches the array keys whose first parts equal it: `["user", 1]` matches `["user", 1]`
+ * and `["user", 1, "posts"]`, but not `["user", 10]`.
+ *
+ * @param prefix - The prefix to match.
+ *
+ * @example
+ * ```ts
+ * // Everything cached about user 42
+ * await invalidatePrefix(["user", 42])
+ * ```
+ *
+ * @public
+ */
+export async function invalidatePrefix(prefix: CacheKey): Promise<void> {
+    await invalidateWhere(key => cacheKeyHasPrefix(key, prefix))
+}
+
+// -------------------------------------------------------------------
+// Cross-tab sync
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `syncCacheAcrossTabs`.
+ *
+ * @public
+ */
+export interface CrossTabSyncOptions {
+    /**
+     * The `BroadcastChannel` to talk over. Tabs only sync with tabs using the same one.
+     * Defaults to `"loadable"`.
+     */
+    channelName?: string
+    /**
+     * Where there's no `BroadcastChannel`, `localStorage` keys starting with this prefix are
+     * followed through `storage` events instead. Defaults to `"loadable:"`, the prefix of the
+     * built-in `"localStorage"` store.
+     */
+    storagePrefix?: string
+}
+
+/**
+ * Stops the cross-tab sync in progress, if any.
+ *
+ * @internal
+ */
+let stopCrossTabSync: (() => void) | undefined
+
+/**
+ * Posts a cache change to the other tabs, when syncing over a `BroadcastChannel`.
+ *
+ * @internal
+ */
+let broadcastCacheEvent: (event: CacheEvent) => void = () => {}
+
+/**
+ * Keeps mounted hooks in sync with cache writes and invalidations made in other tabs.
+ *
+ * @remarks
+ * `setCached`, `invalidate` and the hooks' own cache writes are posted over a `BroadcastChannel`,
+ * and hooks in the other tabs update live: with the new value, or by refetching after an
+ * invalidation. Values the channel can't clone are re-read from the store instead.
+ *
+ * Without `BroadcastChannel`, changes to the built-in `"localStorage"` store are followed
+ * through `storage` events, so only that store is synced.
+ *
+ * Opt-in, and only needed once per tab. Does nothing outside the browser.
+ *
+ * @param options - The channel name and storage prefix.
+ * @returns A function that stops syncing.
+ *
+ * @example
+ * ```ts
+ * // In your entry point
+ * syncCacheAcrossTabs()
+ * ```
+ *
+ * @public
+ */
+export function syncCacheAcrossTabs(options?: CrossTabSyncOptions): () => void {
+    stopCrossTabSync?.()
+    if (typeof window === "undefined") return () => {}
+
+    const { channelName = "loadable", storagePrefix = "loadable:" } = options ?? {}
+    const receive = (event: CacheEvent) => {
+        if (event.type === "invalidate") {
+            invalidateInThisTab(event.key).catch(console.error)
+        } else {
+            hydratedEntries.delete(event.key)
+            notifyCacheListeners(event)
+        }
+    }
+
+    let stop: () => void
+    if (typeof BroadcastChannel !== "undefined") {
+        const channel = new BroadcastChannel(channelName)
+        channel.onmessage = message => receive(message.data as CacheEvent)
+        broadcastCacheEvent = event => {
+            try {
+                channel.postMessage(event)
+            } catch {
+                // The value can't be cloned: let the other tabs read it from the store
+                channel.postMessage({ type: "changed", key: event.key })
+            }
+        }
+        stop = () => {
+            broadcastCacheEvent = () => {}
+            channel.close()
+        }
+    } else {
+        const onStorage = (event: StorageEvent) => {
+            if (event.storageArea !== window.localStorage || !event.key?.startsWith(storagePrefix)) return
+            const key = event.key.slice(storagePrefix.length)
+            receive(event.newValue === null ? { type: "invalidate", key } : { type: "changed", key })
+        }
+        window.addEventListener("storage", onStorage)
+        stop = () => window.removeEventListener("storage", onStorage)
+    }
+
+    const stopThis = () => {
+        // A later call already replaced this sync
+        if (stopCrossTabSync !== stopThis) return
+        stopCrossTabSync = undefined
+        stop()
+    }
+    stopCrossTabSync = stopThis
+    return stopThis
+}
+
+// -------------------------------------------------------------------
+// Retry with backoff
+// -------------------------------------------------------------------
+
+/**
+ * Decides whether a failed load should be retried.
+ *
+ * @param attempt - The number of the retry that would be made (starting at `1`).
+ * @param error - The error the last attempt failed with.
+ * @returns True to retry.
+ *
+ * @public
+ */
+export type RetryPredicate = (attempt: number, error: unknown) => boolean
+
+/**
+ * Full retry configuration for `UseLoadableOptions.retry`.
+ *
+ * @remarks
+ * The delay before retry `n` is `baseDelay * 2^(n - 1)`, capped at `maxDelay`. With
+ * `jitter`, a random amount of up to half of that delay is taken off, so that many
+ * clients failing together don't retry in lockstep.
+ *
+ * @public
+ */
+export interface RetryOption {
+    /**
+     * How many times to retry, or a predicate deciding per failure. Defaults to `3`.
+     */
+    retries?: number | RetryPredicate
+    /**
+     * The delay (in milliseconds) before the first retry. Defaults to `1000`.
+     */
+    baseDelay?: number
+    /**
+     * The longest delay (in milliseconds) between two attempts. Defaults to `30000`.
+     */
+    maxDelay?: number
+    /**
+     * Whether to randomize delays. Defaults to `true`.
+     */
+    jitter?: boolean
+    /**
+     * Called just before each retry starts, with the retry's number and the error that caused it.
+     * Unlike the `LoadingToken`, it also reports retries of a load that keeps a value on screen.
+     */
+    onRetry?(attempt: number, error: unknown): void
+}
+
+/**
+ * A `RetryOption` with every default filled in.
+ *
+ * @internal
+ */
+interface ParsedRetryOption {
+    shouldRetry: RetryPredicate
+    baseDelay: number
+    maxDelay: number
+    jitter: boolean
+    onRetry?: (attempt: number, error: unknown) => void
+}
+
+/**
+ * Parses a `retry` field that could be a count, a predicate or an object.
+ *
+ * @internal
+ */
+function parseRetryOption(retry?: number | RetryPredicate | RetryOption): ParsedRetryOption {
+    const option: RetryOption =
+        typeof retry === "object" ? retry : { retries: retry ?? 0 }
+    const retries = option.retries ?? 3
+    return {
+        shouldRetry:
+            typeof retries === "function" ? retries : attempt => attempt <= retries,
+        baseDelay: option.baseDelay ?? 1000,
+        maxDelay: option.maxDelay ?? 30_000,
+        jitter: option.jitter ?? true,
+        onRetry: option.onRetry?.bind(option),
+    }
+}
+
+/**
+ * Computes how long to wait before retry number `attempt`.
+ *
+ * @internal
+ */
+function retryDelay(attempt: number, retry: ParsedRetryOption): number {
+    const delay = Math.min(retry.maxDelay, retry.baseDelay * 2 ** (attempt - 1))
+    return retry.jitter ? delay / 2 + Math.random() * (delay / 2) : delay
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with the abort reason as soon as `signal` aborts.
+ *
+ * @internal
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason)
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal.reason)
+        }
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        signal.addEventListener("abort", onAbort, { once: true })
+    })
+}
+
+/**
+ * Calls `fetcher`, retrying failures according to `retry` until it succeeds or gives up.
+ *
+ * @remarks
+ * Nothing is retried once `signal` has aborted, and an abort during a backoff delay
+ * stops the loop straight away.
+ *
+ * @internal
+ * @param fetcher - The fetch to attempt.
+ * @param retry - The parsed retry configuration.
+ * @param signal - Aborts the current attempt and any pending retry.
+ * @param onRetry - Called with the retry number just before each retry starts.
+ * @param onProgress - Handed to the fetcher, for every attempt.
+ * @returns The first successful result; rejects with the last error otherwise.
+ */
+async function fetchWithRetry<T>(
+    fetcher: Fetcher<T>,
+    retry: ParsedRetryOption,
+    signal: AbortSignal,
+    onRetry: (attempt: number) => void,
+    onProgress: ProgressReporter
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fetcher(signal, onProgress)
+        } catch (e) {
+            if (signal.aborted || !retry.shouldRetry(attempt, e)) {
+                throw e
+            }
+            await sleep(retryDelay(attempt, retry), signal)
+            retry.onRetry?.(attempt, e)
+            onRetry(attempt)
+        }
+    }
+}
+
+/**
+ * Runs a hook's fetch: through the scheduler, deduplicated by cache key (if any) and
+ * retried according to `retry`.
+ *
+ * @remarks
+ * Retries wrap the deduplicated request, so hooks sharing a failed request each decide
+ * whether to retry, and their retries share a request again.
+ *
+ * @internal
+ */
+function runFetch<T>(
+    fetcher: Fetcher<T>,
+    cache: ParsedCacheOption,
+    retry: ParsedRetryOption,
+    schedule: ScheduleOptions,
+    signal: AbortSignal,
+    onRetry: (attempt: number) => void,
+    onProgress: ProgressReporter
+): Promise<T> {
+    const key = cache.key
+    // Concurrent server renders (for different users) must never share a request
+    const requests = activeServerRender?.inFlightRequests ?? inFlightRequests
+    // A shared request takes a single slot, and each attempt queues again
+    const scheduled = (s: AbortSignal, report: ProgressReporter | undefined, onStart = schedule.onStart) =>
+        scheduleFetch(() => fetcher(s, report), s, { ...schedule, onStart })
+    const request: Fetcher<T> = key
+        ? (s, report) => fetchDeduplicated(requests, key, scheduled, s, report, schedule.onStart)
+        : scheduled
+    return fetchWithRetry(request, retry, signal, onRetry, onProgress)
+}
+
+// -------------------------------------------------------------------
+// Timeouts
+// -------------------------------------------------------------------
+
+/**
+ * Runs `run` with a signal that also aborts once `timeout` milliseconds have passed since
+ * `run` called `startTimer`.
+ *
+ * @remarks
+ * `run` starts the timer once its fetch gets a slot from the scheduler, so that time spent
+ * queued doesn't count. Calling `startTimer` again does nothing.
+ *
+ * If the timer fires first, the returned promise rejects with a `TimeoutLoadError` straight away,
+ * even if `run` ignores its signal and never settles. Without a (positive, finite) `timeout`,
+ * `run` gets `signal` as it is.
+ *
+ * @internal
+ */
+async function withTimeout<T>(
+    timeout: number | undefined,
+    signal: AbortSignal,
+    run: (signal: AbortSignal, startTimer: () => void) => Promise<T>
+): Promise<T> {
+    if (!timeout || timeout <= 0 || !isFinite(timeout)) return run(signal, () => {})
+
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(signal.reason)
+    if (signal.aborted) {
+        onAbort()
+    } else {
+        signal.addEventListener("abort", onAbort, { once: true })
+    }
+    const timedOut = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener("abort", () => {
+            if (controller.signal.reason instanceof TimeoutLoadError) {
+                reject(controller.signal.reason)
+            }
+        })
+    })
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const startTimer = () => {
+        timer ??= setTimeout(() => controller.abort(new TimeoutLoadError(timeout)), timeout)
+    }
+
+    try {
+        return await Promise.race([run(controller.signal, startTimer), timedOut])
+    } finally {
+        clearTimeout(timer)
+        signal.removeEventListener("abort", onAbort)
+    }
+}
+
+// -------------------------------------------------------------------
+// Scheduler
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `configureScheduler`.
+ *
+ * @public
+ */
+export interface SchedulerOptions {
+    /**
+     * How many fetches may run at once, across every hook: a positive integer, or `Infinity`
+     * (the default).
+     */
+    concurrency?: number
+    /**
+     * How many fetches of each group (see the `group` option) may run at once. Merged into the
+     * limits set so far: set a group to `Infinity` to lift its limit. Groups without a limit are
+     * only bound by `concurrency`.
+     */
+    groups?: Record<string, number>
+}
+
+/**
+ * Where a fetch goes in the scheduler's queue: the `priority` and `group` options of its hook.
+ * `onStart` is called once the fetch gets its slot.
+ *
+ * @internal
+ */
+type ScheduleOptions = Pick<UseLoadableOptions, "priority" | "group"> & { onStart?: () => void }
+
+/**
+ * A fetch waiting for a free slot.
+ *
+ * @internal
+ */
+interface QueuedFetch {
+    priority: number
+    group?: string
+    start: () => void
+}
+
+/**
+ * The scheduler's limits and state: the queue is kept sorted by priority, oldest first within one.
+ *
+ * @internal
+ */
+const scheduler = {
+    concurrency: Infinity,
+    groupLimits: new Map<string, number>(),
+    running: 0,
+    runningByGroup: new Map<string, number>(),
+    queue: [] as QueuedFetch[],
+}
+
+/**
+ * Sets how many fetches may run at once, globally and per group.
+ *
+ * @remarks
+ * Every hook's fetch (including each retry attempt), mutation and stream goes through one
+ * scheduler. Once a limit is reached, further fetches wait in a queue, highest `priority` first,
+ * and a fetch whose hook aborts while it waits is dropped from the queue without ever starting.
+ * Hooks sharing a request (see caching) take a single slot, and a stream holds its slot until
+ * it ends. A load's `timeout` only starts once it gets a slot.
+ *
+ * Without a call, nothing is limited. Raising a limit starts waiting fetches straight away.
+ *
+ * @param options - The global and per-group limits.
+ * @throws RangeError if a limit isn't a positive integer or `Infinity`. Nothing is changed then.
+ *
+ * @example
+ * ```ts
+ * // At most 6 fetches at once, of which at most 2 thumbnails
+ * configureScheduler({ concurrency: 6, groups: { thumbnails: 2 } })
+ *
+ * useLoadable(fetchThumbnail, [id], { group: "thumbnails", priority: -1 })
+ * useLoadable(fetchHero, [], { priority: 10 })
+ * ```
+ *
+ * @public
+ */
+export function configureScheduler(options: SchedulerOptions): void {
+    const groups = Object.entries(options.groups ?? {})
+    const limits: [string, number | undefined][] = [["concurrency", options.concurrency], ...groups]
+    for (const [name, limit] of limits) {
+        // A limit of 0 (or NaN) would never let anything start
+        if (limit !== undefined && !(limit === Infinity || (Number.isInteger(limit) && limit > 0))) {
+            throw new RangeError(`The scheduler's "${name}" limit must be a positive integer or Infinity, got ${limit}`)
+        }
+    }
+    if (options.concurrency !== undefined) scheduler.concurrency = options.concurrency
+    groups.forEach(([group, limit]) => scheduler.groupLimits.set(group, limit))
+    startQueuedFetches()
+}
+
+/**
+ * Runs `run` once the scheduler has a free slot for it, in priority order.
+ *
+ * @internal
+ * @returns What `run` returns. Rejects with the abort reason if `signal` aborts while queued.
+ */
+function scheduleFetch<T>(
+    run: () => Promise<T>,
+    signal: AbortSignal,
+    { priority = 0, group, onStart }: ScheduleOptions
+): Promise<T> {
+    if (signal.aborted) return Promise.reject(signal.reason)
+    return new Promise<T>((resolve, reject) => {
+        const queued: QueuedFetch = {
+            priority,
+            group,
+            start: () => {
+                signal.removeEventListener("abort", onAbort)
+                onStart?.()
+                scheduler.running++
+                if (group !== undefined) {
+                    scheduler.runningByGroup.set(group, (scheduler.runningByGroup.get(group) ?? 0) + 1)
+                }
+                let promise: Promise<T>
+                try {
+                    promise = run()
+                } catch (e) {
+                    promise = Promise.reject(e)
+                }
+                promise.then(resolve, reject).finally(() => {
+                    scheduler.running--
+                    if (group !== undefined) {
+                        scheduler.runningByGroup.set(group, scheduler.runningByGroup.get(group)! - 1)
+                    }
+                    startQueuedFetches()
+                })
+            },
+        }
+        const onAbort = () => {
+            const index = scheduler.queue.indexOf(queued)
+            if (index !== -1) scheduler.queue.splice(index, 1)
+            reject(signal.reason)
+        }
+        signal.addEventListener("abort", onAbort, { once: true })
+
+        // After every queued fetch of the same or a higher priority
+        const index = scheduler.queue.findIndex(other => other.priority < priority)
+        scheduler.queue.splice(index === -1 ? scheduler.queue.length : index, 0, queued)
+        startQueuedFetches()
+    })
+}
+
+/**
+ * Starts queued fetches, in order, while there are free slots. Fetches whose group is full
+ * are skipped, so they don't hold up the other groups.
+ *
+ * @internal
+ */
+function startQueuedFetches() {
+    for (let i = 0; i < scheduler.queue.length && scheduler.running < scheduler.concurrency; ) {
+        const { group } = scheduler.queue[i]
+        const limit = group === undefined ? undefined : scheduler.groupLimits.get(group)
+        if (limit !== undefined && (scheduler.runningByGroup.get(group!) ?? 0) >= limit) {
+            i++
+            continue
+        }
+        scheduler.queue.splice(i, 1)[0].start()
+    }
+}
+
+// -------------------------------------------------------------------
+// Options for useLoadable
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `useLoadable`.
+ *
+ * @typeParam T - The data type we expect to load.
+ *
+ * @public
+ */
+export interface UseLoadableOptions<T = any> {
+    /**
+     * A prefetched loadable value, if available (used instead of calling the fetcher).
+     */
+    prefetched?: Loadable<T>
+    /**
+     * An optional callback for load errors. Called with the raw error object.
+     * Never called for aborted loads.
+     */
+    onError?: (error: unknown) => void
+    /**
+     * If true, once we have a loaded value, do **not** revert to `loading`
+     * on subsequent fetches; instead, keep the old value until the new fetch
+     * finishes or fails.
+     */
+    hideReload?: boolean
+    /**
+     * Caching configuration. Can be:
+     * - A key: a string, an array like `["user", id]`, or a function of the dependencies returning
+     *   either (store defaults to `"localStorage"`).
+     * - An object: `{ key, store?: CacheStoreName | CacheStore, staleTime?, maxAge?, ... }`.
+     */
+    cache?: CacheKeyOption | CacheOption
+    /**
+     * Retries failed loads with exponential backoff before settling to a `LoadError`. Can be:
+     * - A number: how many times to retry.
+     * - A predicate: `(attempt, error) => boolean`.
+     * - A `RetryOption` object, to also tune the delays.
+     *
+     * Defaults to no retries. While retrying, the hook holds a `LoadingToken` carrying the attempt.
+     */
+    retry?: number | RetryPredicate | RetryOption
+    /**
+     * A name for this hook's loads, reported in inspector events (see `subscribeToLoadEvents`).
+     */
+    label?: string
+    /**
+     * Aborts a load that hasn't settled after this many milliseconds (retries included), and
+     * settles it to a `TimeoutLoadError`. Time spent waiting for the scheduler (see
+     * `configureScheduler`) doesn't count.
+     */
+    timeout?: number
+    /**
+     * Where this hook's fetches go in the scheduler's queue: higher runs first. Defaults to `0`.
+     * Only matters once a concurrency limit is set (see `configureScheduler`).
+     */
+    priority?: number
+    /**
+     * The scheduler group this hook's fetches count against, on top of the global limit
+     * (see `configureScheduler`).
+     */
+    group?: string
+    /**
+     * Refetches every this many milliseconds while mounted. A tick is skipped while a load is
+     * still in flight, and polling pauses while the document is hidden, unless
+     * `refetchIntervalInBackground` is set.
+     */
+    refetchInterval?: number
+    /**
+     * If true, keep polling (see `refetchInterval`) while the document is hidden.
+     */
+    refetchIntervalInBackground?: boolean
+    /**
+     * If true, refetch whenever the window regains focus.
+     */
+    refetchOnWindowFocus?: boolean
+    /**
+     * If true, refetch whenever the browser comes back online.
+     */
+    refetchOnReconnect?: boolean
+}
+
+// -------------------------------------------------------------------
+// A custom hook for state with timestamps
+// -------------------------------------------------------------------
+
+/**
+ * A hook that manages a piece of state (`T`) alongside a timestamp, allowing you
+ * to ignore stale updates with older timestamps.
+ *
+ * @remarks
+ * Internally, it stores the current `value` plus a `loadStart` timestamp. Each time
+ * you set a new value, you can provide an optional new timestamp. If that timestamp
+ * is older than the current state's `loadStart`, the update is ignored.
+ *
+ * @param initial - The initial state value.
+ * @returns A tuple: `[value, setValue, loadStart]`.
+ *
+ * @example
+ * ```ts
+ * const [myValue, setMyValue, lastUpdated] = useLatestState(0)
+ *
+ * function handleUpdate(newVal: number) {
+ *   // We'll pass a timestamp
+ *   setMyValue(newVal, performance.now())
+ * }
+ * ```
+ *
+ * @public
+ */
+export function useLatestState<T>(
+    initial: T
+): [T, (value: T | ((current: T) => T), loadStart?: TimeStamp) => void, TimeStamp] {
+    const [value, setValue] = useState<{
+        value: T
+        loadStart: TimeStamp
+    }>({
+        value: initial,
+        loadStart: 0,
+    })
+
+    function updateValue(
+        newValue: T | ((current: T) => T),
+        loadStart: TimeStamp = currentTimestamp()
+    ) {
+        setValue(current => {
+            if (current.loadStart > loadStart) {
+                // Ignore older updates
+                return current
+            }
+            const nextValue =
+                typeof newValue === "function"
+                    ? (newValue as (c: T) => T)(current.value)
+                    : newValue
+            return {
+                value: nextValue,
+                loadStart,
+            }
+        })
+    }
+
+    return [value.value, updateValue, value.loadStart]
+}
+
+// -------------------------------------------------------------------
+// Inspector
+// -------------------------------------------------------------------
+
+/**
+ * A load in flight, as reported by `getActiveLoads` and carried by every `LoadEvent` about it.
+ *
+ * @public
+ */
+export interface ActiveLoad {
+    /**
+     * Identifies the load; unique for the lifetime of the page.
+     */
+    id: number
+    /**
+     * The `label` option of the hook that started the load, if any.
+     */
+    label?: string
+    /**
+     * The load's cache key, if any.
+     */
+    key?: string
+    /**
+     * The dependencies the load was started with.
+     */
+    dependencies: DependencyList
+    /**
+     * When the load started.
+     */
+    startTime: TimeStamp
+}
+
+/**
+ * An event emitted by the inspector (see `subscribeToLoadEvents`):
+ * - `start`, then one of `success`, `error` or `abort` for every load, the latter with its `duration`;
+ * - `cache-hit` whenever a hook finds a usable cache entry, and whether it was still fresh;
+ * - `cache-write` whenever a value is written through the hooks or `setCached`.
+ *
+ * @public
+ */
+export type LoadEvent =
+    | ({ type: "start" } & ActiveLoad)
+    | ({ type: "success" | "abort"; duration: number } & ActiveLoad)
+    | ({ type: "error"; duration: number; error: LoadError } & ActiveLoad)
+    | { type: "cache-hit"; key: string; fresh: boolean; label?: string; dependencies?: DependencyList }
+    | { type: "cache-write"; key: string; label?: string; dependencies?: DependencyList }
+
+/**
+ * Who a load, cache hit or cache write is for.
+ *
+ * @internal
+ */
+type LoadSource = Pick<ActiveLoad, "label" | "key" | "dependencies">
+
+/**
+ * Every load in flight, by id.
+ *
+ * @internal
+ */
+const activeLoads = new Map<number, ActiveLoad>()
+let lastLoadId = 0
+
+/**
+ * Everyone listening to inspector events.
+ *
+ * @internal
+ */
+const loadEventListeners = new Set<(event: LoadEvent) => void>()
+
+/**
+ * Subscribes to every load's events, e.g. to feed a devtools panel or to assert on loads in a test.
+ *
+ * @param listener - Called synchronously with each event. Errors it throws are logged, not rethrown.
+ * @returns A function that unsubscribes the listener.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToLoadEvents(event => {
+ *   if (event.type === "error") console.warn(event.label ?? event.key, "failed after", event.duration, "ms")
+ * })
+ * ```
+ *
+ * @public
+ */
+export function subscribeToLoadEvents(listener: (event: LoadEvent) => void): () => void {
+    loadEventListeners.add(listener)
+    return () => {
+        loadEventListeners.delete(listener)
+    }
+}
+
+/**
+ * Returns the loads currently in flight, oldest first.
+ *
+ * @public
+ */
+export function getActiveLoads(): ActiveLoad[] {
+    return [...activeLoads.values()]
+}
+
+/**
+ * Hands an event to every inspector listener.
+ *
+ * @internal
+ */
+function emitLoadEvent(event: LoadEvent) {
+    loadEventListeners.forEach(listener => {
+        try {
+            listener(event)
+        } catch (e) {
+            console.error(e)
+        }
+    })
+}
+
+/**
+ * Registers a load as active and emits its `start` event.
+ *
+ * @remarks
+ * The load is reported as aborted as soon as `signal` aborts, even if the fetcher ignores
+ * the signal. Whichever of `succeed`, `fail` or the abort happens first wins.
+ *
+ * Once no load is left in flight, `window.prerenderReady` is set (if present) for prerendering services.
+ *
+ * @internal
+ */
+function trackLoad(
+    source: LoadSource,
+    signal: AbortSignal
+): { succeed: () => void; fail: (error: LoadError) => void } {
+    const load: ActiveLoad = { id: ++lastLoadId, ...source, startTime: currentTimestamp() }
+    activeLoads.set(load.id, load)
+    emitLoadEvent({ type: "start", ...load })
+
+    const finish = (event: { type: "success" | "abort" } | { type: "error"; error: LoadError }) => {
+        if (!activeLoads.delete(load.id)) return
+        signal.removeEventListener("abort", onAbort)
+        emitLoadEvent({ ...event, ...load, duration: currentTimestamp() - load.startTime })
+        if (activeLoads.size === 0 && typeof window !== "undefined" && "prerenderReady" in window) {
+            ;(window as any).prerenderReady = true
+        }
+    }
+    const onAbort = () => finish({ type: "abort" })
+    signal.addEventListener("abort", onAbort, { once: true })
+
+    return {
+        succeed: () => finish({ type: "success" }),
+        // Only the load's own signal cancels it; any other abort is a failure
+        fail: error => finish(signal.aborted ? { type: "abort" } : { type: "error", error }),
+    }
+}
+
+// -------------------------------------------------------------------
+// LoadableStore
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `createResource` / `LoadableStore`.
+ *
+ * @typeParam T - The data type we expect to load.
+ *
+ * @public
+ */
+export interface LoadableStoreOptions<T>
+    extends Pick<
+        UseLoadableOptions<T>,
+        "onError" | "hideReload" | "cache" | "retry" | "timeout" | "label" | "priority" | "group"
+    > {
+    /**
+     * The value to start from, instead of `loading`.
+     */
+    initial?: Loadable<T>
+    /**
+     * While false, loads only mark the store as loading, without fetching. Defaults to true.
+     */
+    enabled?: boolean
+    /**
+     * Reported alongside the store's loads in inspector events.
+     */
+    dependencies?: DependencyList
+}
+
+/**
+ * An observable loadable, usable from any code: the loading, ordering, caching and abort logic
+ * behind `useLoadable`, without React.
+ *
+ * @remarks
+ * - `getSnapshot()` returns the current `Loadable<T>`, and `subscribe(listener)` calls `listener`
+ *   whenever it changes (the contract `useSyncExternalStore` expects).
+ * - `load()` starts a load, aborting the previous one; `whenLoaded()` resolves with the loaded value.
+ * - Every load is stamped with its start time, so an older load can never overwrite a newer one.
+ * - While it has subscribers, the store follows `setCached` and `invalidate` calls for its cache key.
+ *
+ * Create one with `createResource`, and use it from React with `useLoadableStore`.
+ *
+ * @public
+ */
+export class LoadableStore<T> {
+    private state: { value: Loadable<T>; loadStart: TimeStamp }
+    private readonly listeners = new Set<() => void>()
+    private controller: AbortController | null = null
+    private unsubscribeFromCache: (() => void) | null = null
+    private followedKey: string | undefined
+    private options!: LoadableStoreOptions<T>
+    private cache!: ParsedCacheOption
+    private retry!: ParsedRetryOption
+
+    /**
+     * Whether a load has been started yet.
+     */
+    started = false
+
+    /**
+     * Whether a load is in flight (reading the cache or fetching).
+     */
+    get inFlight(): boolean {
+        return this.controller !== null
+    }
+
+    /**
+     * @param fetcher - Loads the value.
+     * @param options - Caching, retries, timeout, error handling...
+     */
+    constructor(
+        private fetcher: Fetcher<T>,
+        options: LoadableStoreOptions<T> = {}
+    ) {
+        this.state = { value: options.initial ?? loading, loadStart: 0 }
+        this.configure(fetcher, options)
+    }
+
+    /**
+     * Replaces the fetcher and options used by the next loads. Loads in flight aren't affected.
+     */
+    configure(fetcher: Fetcher<T>, options: LoadableStoreOptions<T> = {}): void {
+        this.fetcher = fetcher
+        this.options = options
+        this.cache = parseCacheOption(options.cache, options.dependencies)
+        this.retry = parseRetryOption(options.retry)
+        if (this.listeners.size > 0 && this.followedKey !== this.cache.key) {
+            this.followCache()
+        }
+    }
+
+    /**
+     * Returns the current loadable.
+     */
+    getSnapshot = (): Loadable<T> => this.state.value
+
+    /**
+     * Calls `listener` whenever the loadable changes.
+     *
+     * @returns A function that unsubscribes the listener.
+     */
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener)
+        if (this.listeners.size === 1) this.followCache()
+        return () => {
+            this.listeners.delete(listener)
+            if (this.listeners.size === 0) this.stopFollowingCache()
+        }
+    }
+
+    /**
+     * Sets the loadable, unless a newer load has already started or settled.
+     *
+     * @param value - The new value, or a function of the current one.
+     * @param loadStart - The start time of the load this value belongs to. Defaults to now.
+     */
+    set(value: Loadable<T> | ((current: Loadable<T>) => Loadable<T>), loadStart: TimeStamp = currentTimestamp()): void {
+        if (this.state.loadStart > loadStart) {
+            // Ignore older updates
+            return
+        }
+        const next =
+            typeof value === "function"
+                ? (value as (current: Loadable<T>) => Loadable<T>)(this.state.value)
+                : value
+        if (next === this.state.value && loadStart === this.state.loadStart) return
+        this.state = { value: next, loadStart }
+        this.listeners.forEach(listener => listener())
+    }
+
+    /**
+     * Starts a load, aborting the one in flight (if any). Resolves once it has settled (or was skipped).
+     *
+     * @param useCache - Whether to read the cache first. Defaults to true.
+     * @param keepLoaded - Whether to keep a loaded value meanwhile. Defaults to `hideReload`.
+     */
+    load(useCache: boolean = true, keepLoaded: boolean = !!this.options.hideReload): Promise<void> {
+        const startTime = currentTimestamp()
+        const { enabled = true, timeout, label, dependencies = [], priority, group } = this.options
+        const cache = this.cache
+        const retry = this.retry
+        const fetcher = this.fetcher
+        const source: LoadSource = { label, key: cache.key, dependencies }
+        this.started = true
+
+        // If hideReload=false or not yet loaded, revert to 'loading'
+        this.set(current => (keepLoaded && hasLoaded(current) ? current : loading), startTime)
+
+        if (!enabled) return Promise.resolve()
+
+        this.controller?.abort()
+        const controller = new AbortController()
+        this.controller = controller
+        const signal = controller.signal
+
+        const doFetch = (): Promise<void> => {
+            const tracked = trackLoad(source, signal)
+            let currentAttempt = 0
+            // Progress reported after the load settles must not overwrite its result
+            let settled = false
+            // Surface retries and progress, but never in place of a value already on screen
+            // (e.g. a stale entry being revalidated): `onRetry` and `onProgress` report those
+            const showToken = (token: LoadingToken) =>
+                this.set(current => (hasLoaded(current) ? current : token), startTime)
+
+            return withTimeout(timeout, signal, (timed, startTimer) =>
+                runFetch(
+                    fetcher,
+                    cache,
+                    retry,
+                    { priority, group, onStart: startTimer },
+                    timed,
+                    attempt => {
+                        currentAttempt = attempt
+                        showToken(new LoadingToken(startTime, attempt))
+                    },
+                    progress => {
+                        if (settled || timed.aborted) return
+                        showToken(new LoadingToken(startTime, currentAttempt, toLoadProgress(progress)))
+                    }
+                )
+            )
+                .then(result => {
+                    settled = true
+                    // A superseded load may share its start time with the newer one,
+                    // so don't rely on the ordering alone to discard its result
+                    if (signal.aborted) return
+                    tracked.succeed()
+                    // On success, write to cache if key (other subscribers of the key pick it up too)
+                    cacheResult(source, cache, result)
+                    this.set(result, startTime)
+                })
+                .catch(e => {
+                    settled = true
+                    // Our own aborts are routine cancellations, not failures
+                    if (signal.aborted) return
+                    // Any other abort (e.g. the fetcher's own) is a failure, or nothing would ever settle the load
+                    const error = toLoadError(e)
+                    tracked.fail(error)
+                    this.options.onError?.(e)
+                    this.set(error, startTime)
+                })
+        }
+
+        // Before fetching, try reading from cache (if provided)
+        const run =
+            !useCache || !cache.key
+                ? doFetch()
+                : readUsableCache<T>(cache, source).then(cached => {
+                      if (signal.aborted) return
+                      if (cached) {
+                          this.set(cached.value, startTime)
+                          // Fresh entries skip the fetch, stale ones revalidate
+                          if (cached.fresh) return
+                      }
+                      return doFetch()
+                  })
+        return run.finally(() => {
+            if (this.controller === controller) this.controller = null
+        })
+    }
+
+    /**
+     * Aborts the load in flight, if any. The loadable keeps its current state.
+     */
+    cancel(): void {
+        this.controller?.abort()
+        this.controller = null
+    }
+
+    /**
+     * Resolves with the loaded value, once there is one; rejects with the `LoadError` if the load fails.
+     * Starts a load if none has been started yet.
+     */
+    whenLoaded(): Promise<Loaded<T>> {
+        if (!this.started) this.load()
+        return new Promise((resolve, reject) => {
+            const check = () => {
+                const value = this.state.value
+                if (isLoadingValue(value)) return
+                unsubscribe()
+                if (value instanceof LoadError) {
+                    reject(value)
+                } else {
+                    resolve(value as Loaded<T>)
+                }
+            }
+            const unsubscribe = this.subscribe(check)
+            check()
+        })
+    }
+
+    private followCache() {
+        this.stopFollowingCache()
+        const key = this.cache.key
+        this.followedKey = key
+        if (!key) return
+        this.unsubscribeFromCache = subscribeToCacheKey(key, event => {
+            if (event.type === "set") {
+                // Show the new value, but keep the current load's stamp: a load
+                // already in flight still lands its result when it settles
+                this.set(event.value as T, this.state.loadStart)
+            } else if (event.type === "changed") {
+                // Pick up the new entry, keeping the current value meanwhile
+                this.load(true, true)
+            } else {
+                this.load(false)
+            }
+        })
+    }
+
+    private stopFollowingCache() {
+        this.unsubscribeFromCache?.()
+        this.unsubscribeFromCache = null
+        this.followedKey = undefined
+    }
+}
+
+/**
+ * Creates a `LoadableStore` for `fetcher`, which any code can load, `await` or subscribe to.
+ *
+ * @remarks
+ * Nothing is fetched until the first `load()`, `whenLoaded()` or `useLoadableStore`.
+ *
+ * @param fetcher - Loads the value.
+ * @param options - Caching, retries, timeout, error handling...
+ *
+ * @example
+ * ```ts
+ * export const currentUser = createResource(fetchCurrentUser, { cache: "current-user" })
+ *
+ * // In service code, a worker or a non-React widget:
+ * const user = await currentUser.whenLoaded()
+ * const unsubscribe = currentUser.subscribe(() => render(currentUser.getSnapshot()))
+ *
+ * // In a component:
+ * const user = useLoadableStore(currentUser)
+ * ```
+ *
+ * @public
+ */
+export function createResource<T>(fetcher: Fetcher<T>, options?: LoadableStoreOptions<T>): LoadableStore<T> {
+    return new LoadableStore(fetcher, options)
+}
+
+/**
+ * Reads a `LoadableStore` from a component, re-rendering whenever it changes.
+ *
+ * @remarks
+ * Starts a load on mount if none has been started yet. Several components (and non-React code)
+ * can share the same store.
+ *
+ * @param store - The store to read.
+ * @returns The store's current loadable.
+ *
+ * @public
+ */
+export function useLoadableStore<T>(store: LoadableStore<T>): Loadable<T> {
+    const value = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+    useEffect(() => {
+        if (!store.started) store.load()
+    }, [store])
+    return value
+}
+
+// -------------------------------------------------------------------
+// The shared loading core
+// -------------------------------------------------------------------
+
+/**
+ * Wraps a fetcher so that a `prefetched` loadable is used instead of calling it, when possible.
+ *
+ * @internal
+ */
+function withPrefetched<T>(
+    fetcher: Fetcher<T>,
+    prefetched: Loadable<T> | undefined
+): (ignored: unknown, signal: AbortSignal, onProgress?: ProgressReporter) => Promise<T> {
+    return async (_ignored, signal, onProgress) => {
+        if (prefetched !== undefined) {
+            if (prefetched === loading) {
+                return fetcher(signal, onProgress)
+            } else if (prefetched instanceof LoadError) {
+                throw prefetched
+            } else if (isLoadingValue(prefetched)) {
+                // e.g. a LoadingToken
+                return fetcher(signal, onProgress)
+            } else {
+                // Otherwise it's a T
+                return prefetched
+            }
+        }
+        return fetcher(signal, onProgress)
+    }
+}
+
+/**
+ * The hook every loading hook is built on: a `LoadableStore` driven by the component's lifecycle.
+ *
+ * @remarks
+ * Runs a load whenever `dependencies` change (once `readyCondition(waitable)` holds), and
+ * returns the loadable alongside two stable functions:
+ * - `reload()` starts a new load right away, skipping the cache read, and resolves once it settles;
+ * - `cancel()` aborts whatever load is in flight.
+ *
+ * The store is read through `useSyncExternalStore`, and always fetches with the latest
+ * waitable, fetcher and options.
+ *
+ * @internal
+ */
+function useLoadableCore<W, R>(
+    waitable: W,
+    readyCondition: (loaded: W) => boolean,
+    fetcher: (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList,
+    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
+): [Loadable<R>, () => Promise<void>, () => void] {
+    const options: UseLoadableOptions<R> =
+        typeof optionsOrOnError === "function"
+            ? { onError: optionsOrOnError }
+            : (optionsOrOnError ?? {})
+    const hideReload = !!options.hideReload
+    const cacheObj = parseCacheOption(options.cache, dependencies)
+
+    const ready = readyCondition(waitable)
+    const storeFetcher: Fetcher<R> = (signal, onProgress) => fetcher(waitable, signal, onProgress)
+    const storeOptions: LoadableStoreOptions<R> = { ...options, enabled: ready, dependencies }
+
+    // Server renders and hydration identify a load by its cache key, or its place in the tree
+    const id = useId()
+    const [fromServer] = useState(() => {
+        const ssrKey = cacheObj.key ?? id
+        const entry = activeServerRender
+            ? activeServerRender.take<R>(ssrKey, ready, signal =>
+                  withTimeout(options.timeout, signal, (timed, startTimer) =>
+                      runFetch(
+                          storeFetcher,
+                          cacheObj,
+                          parseRetryOption(options.retry),
+                          { ...options, onStart: startTimer },
+                          timed,
+                          () => {},
+                          () => {}
+                      )
+                  )
+              )
+            : takeHydrated<R>(ssrKey, !cacheObj.key)
+        const expired =
+            entry !== undefined &&
+            !(entry instanceof LoadError) &&
+            currentTimestamp() - entry.timestamp >= cacheObj.maxAge
+        return expired ? undefined : entry
+    })
+    // Whether the first load still has to account for `fromServer`
+    const hydrating = useRef(fromServer !== undefined)
+
+    const [store] = useState(
+        () =>
+            new LoadableStore<R>(storeFetcher, {
+                ...storeOptions,
+                initial:
+                    fromServer === undefined
+                        ? loading
+                        : fromServer instanceof LoadError
+                          ? fromServer
+                          : fromServer.value,
+            })
+    )
+    // Loads (including `reload` and cache invalidations) must see the latest waitable, fetcher and
+    // options. Configuring follows the new cache key, so it waits for the commit rather than
+    // touching the store from a render React may throw away; layout effects run before the load's.
+    useLayoutEffect(() => {
+        store.configure(storeFetcher, storeOptions)
+    })
+
+    const value = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+
+    useEffect(() => {
+        // A value rendered on the server counts as a cache entry for the first load
+        if (!hydrating.current) {
+            store.load(true)
+        } else if (
+            fromServer instanceof LoadError ||
+            currentTimestamp() - fromServer!.timestamp >= cacheObj.staleTime
+        ) {
+            store.load(false, true)
+        }
+        hydrating.current = false
+        return () => {
+            store.cancel()
+        }
+    }, [...dependencies, ready, hideReload])
+
+    // Background refreshes: polling, focus and reconnect. They always keep the loaded
+    // value on screen, so a refresh never flashes back to `loading`.
+    const { refetchInterval, refetchIntervalInBackground, refetchOnWindowFocus, refetchOnReconnect } =
+        options
+    useEffect(() => {
+        if (typeof window === "undefined" || !ready) return
+        const refresh = () => {
+            store.load(false, true)
+        }
+        const cleanups: (() => void)[] = []
+
+        if (refetchInterval && refetchInterval > 0) {
+            const timer = setInterval(() => {
+                // Restarting a load still in flight would abort it: with an interval shorter
+                // than the fetch, the value would never update
+                if (store.inFlight) return
+                if (refetchIntervalInBackground || document.visibilityState !== "hidden") {
+                    refresh()
+                }
+            }, refetchInterval)
+            cleanups.push(() => clearInterval(timer))
+        }
+        if (refetchOnWindowFocus) {
+            window.addEventListener("focus", refresh)
+            cleanups.push(() => window.removeEventListener("focus", refresh))
+        }
+        if (refetchOnReconnect) {
+            window.addEventListener("online", refresh)
+            cleanups.push(() => window.removeEventListener("online", refresh))
+        }
+        return () => cleanups.forEach(cleanup => cleanup())
+    }, [ready, refetchInterval, refetchIntervalInBackground, refetchOnWindowFocus, refetchOnReconnect])
+
+    const reload = useCallback(() => store.load(false), [store])
+    const cancel = useCallback(() => store.cancel(), [store])
+
+    return [value, reload, cancel]
+}
+
+// -------------------------------------------------------------------
+// Overloads for useLoadable
+// -------------------------------------------------------------------
+
+/**
+ * Overload: `useLoadable(waitable, readyCondition, fetcher, dependencies, optionsOrOnError?)`
+ */
+export function useLoadable<W, R>(
+    waitable: W,
+    readyCondition: (loaded: W) => boolean,
+    fetcher: (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList,
+    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
+): Loadable<R>
+
+/**
+ * Overload: `useLoadable(fetcher, deps, options?)`
+ */
+export function useLoadable<T>(
+    fetcher: Fetcher<T>,
+    deps: DependencyList,
+    options?: UseLoadableOptions<T>
+): Loadable<T>
+
+/**
+ * The core hook that returns a `Loadable<T>` by calling an async fetcher.
+ *
+ * @remarks
+ * Has two main usage patterns:
+ * 1. **Waitable** form: You pass a "waitable" value plus a `readyCondition`, and a `fetcher`.
+ *    - The effect only runs when `readyCondition(waitable)` is true.
+ *    - If `hideReload` is false, it will revert to loading each time the waitable changes.
+ *
+ * 2. **Simple** form: You pass just a `fetcher`, dependencies, and optional `UseLoadableOptions`.
+ *    - The fetcher is called whenever dependencies change.
+ *    - The result is stored in a loadable: `loading` until success or `LoadError` on failure.
+ *
+ * Caching:
+ * - If `cache` is provided (string or `{ key, store, staleTime, maxAge }`), it tries to read from
+ *   that cache first. A fresh entry is returned without fetching, a stale one is returned
+ *   immediately and revalidated in the background, and an expired one is ignored.
+ * - Hooks that fetch the same cache key at the same time share a single request.
+ *
+ * @typeParam T - The successful data type when using the simple form.
+ * @typeParam W - The waitable type (for advanced usage).
+ * @typeParam R - The successful data type when using the waitable form.
+ *
+ * @public
+ */
+export function useLoadable<T, W, R>(
+    fetcherOrWaitable: Fetcher<T> | W,
+    depsOrReadyCondition: DependencyList | ((loaded: W) => boolean),
+    optionsOrFetcher?:
+        | UseLoadableOptions<T>
+        | ((loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>),
+    dependencies: DependencyList = [],
+    lastParam?: ((e: unknown) => void) | UseLoadableOptions<R>
+): Loadable<T> | Loadable<R> {
+    // ============================
+    // CASE 1: waitable + readyCondition + fetcher
+    // ============================
+    if (typeof depsOrReadyCondition === "function") {
+        return useLoadableCore(
+            fetcherOrWaitable as W,
+            depsOrReadyCondition as (loaded: W) => boolean,
+            optionsOrFetcher as (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+            dependencies,
+            lastParam
+        )[0]
+    }
+
+    // ============================
+    // CASE 2: fetcher + deps + options
+    // ============================
+    const options = optionsOrFetcher as UseLoadableOptions<T> | undefined
+
+    // We'll piggyback on the waitable approach, with a "dummy" waitable always ready
+    return useLoadableCore(
+        loading,
+        () => true,
+        withPrefetched(fetcherOrWaitable as Fetcher<T>, options?.prefetched),
+        depsOrReadyCondition as DependencyList,
+        options
+    )[0]
+}
+
+// -------------------------------------------------------------------
+// useThen + useAllThen
+// -------------------------------------------------------------------
+
+/**
+ * A hook that waits for a `loadable` to finish, then calls another async `fetcher`.
+ *
+ * @remarks
+ * If `loadable` is still loading or has failed, this hook returns the same `loadable` state.
+ * Otherwise, if `loadable` is loaded, it calls `fetcher(loadedValue)` and returns the result
+ * as a new `Loadable<R>`.
+ *
+ * @param loadable - The initial loadable value.
+ * @param fetcher - A function that takes the successfully loaded data plus an abort signal, returning a promise.
+ * @param dependencies - An optional list of dependencies to trigger re-runs. Defaults to `[hasLoaded(loadable)]`.
+ * @param options - Optional `UseLoadableOptions` for error handling, caching, etc.
+ * @returns A `Loadable<R>` that is `loading` until the chained fetch finishes, or a `LoadError` if it fails.
+ *
+ * @example
+ * ```ts
+ * const user = useLoadable(() => fetchUser(userId), [userId])
+ * const posts = useThen(user, (u) => fetchPostsForUser(u.id))
+ * ```
+ *
+ * @public
+ */
+export function useThen<T, R>(
+    loadable: Loadable<T>,
+    fetcher: (loaded: T, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList = [hasLoaded(loadable)],
+    options?: UseLoadableOptions<R>
+): Loadable<R> {
+    return useThenWithReload(loadable, fetcher, dependencies, options)[0]
+}
+
+/** @internal */
+type UnwrapLoadable<T> = T extends Loadable<infer U> ? U : never
+/** @internal */
+type LoadableParameters<T extends Loadable<any>[]> = {
+    [K in keyof T]: UnwrapLoadable<T[K]>
+}
+
+/**
+ * A hook that waits for multiple loadables to finish, then calls a `fetcher` using all their loaded values.
+ *
+ * @remarks
+ * Internally, it calls `all(...loadables)`. If any loadable is still loading or fails, the combined is `loading`.
+ * Once all are loaded, calls `fetcher(...loadedValues, signal)` and returns a `Loadable<R>`.
+ *
+ * @param loadables - An array (spread) of loadable values, e.g. `[user, stats, posts]`.
+ * @param fetcher - A function that takes each loaded value plus an `AbortSignal`.
+ * @param dependencies - An optional list of dependencies to re-run the effect. Defaults to the loadables array.
+ * @param options - Optional config for error handling, caching, etc.
+ * @returns A loadable result of type `R`.
+ *
+ * @example
+ * ```ts
+ * const user = useLoadable(fetchUser, [])
+ * const stats = useLoadable(fetchStats, [])
+ *
+ * const combined = useAllThen(
+ *   [user, stats],
+ *   (u, s, signal) => fetchDashboard(u, s, signal),
+ *   []
+ * )
+ * ```
+ *
+ * @public
+ */
+export function useAllThen<T extends Loadable<any>[], R>(
+    loadables: [...T],
+    fetcher: (...args: [...LoadableParameters<T>, AbortSignal, ProgressReporter?]) => Promise<R>,
+    dependencies: DependencyList = loadables,
+    options?: UseLoadableOptions<R>
+): Loadable<R> {
+    return useAllThenWithReload(loadables, fetcher, dependencies, options)[0]
+}
+
+// -------------------------------------------------------------------
+// Reloadable variants
+// -------------------------------------------------------------------
+
+/**
+ * Overload: `useLoadableWithReload(waitable, readyCondition, fetcher, deps, optionsOrOnError?)`.
+ */
+export function useLoadableWithReload<W, R>(
+    waitable: W,
+    readyCondition: (loaded: W) => boolean,
+    fetcher: (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList,
+    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
+): [Loadable<R>, () => Promise<void>]
+
+/**
+ * Overload: `useLoadableWithReload(fetcher, deps, options?)`.
+ */
+export function useLoadableWithReload<T>(
+    fetcher: Fetcher<T>,
+    deps: DependencyList,
+    options?: UseLoadableOptions<T>
+): [Loadable<T>, () => Promise<void>]
+
+/**
+ * A variant of `useLoadable` that returns a `[Loadable<T>, reload]` tuple.
+ *
+ * @remarks
+ * `reload()` refetches without waiting for a dependency to change:
+ * - it skips the cache read (the result is still written to the cache);
+ * - it honours `hideReload`, so a loaded value can stay on screen while reloading;
+ * - it goes through the same ordering as every other load, so a stale response still loses;
+ * - the returned promise resolves once the reloaded value has settled.
+ *
+ * The `reload` function is stable across renders.
+ *
+ * @returns A tuple: `[Loadable<T>, reload]`.
+ *
+ * @example
+ * ```ts
+ * const [todos, reload] = useLoadableWithReload(fetchTodos, [], { hideReload: true })
+ *
+ * <button onClick={() => reload()}>Refresh</button>
+ * ```
+ *
+ * @public
+ */
+export function useLoadableWithReload<T, W, R>(
+    fetcherOrWaitable: Fetcher<T> | W,
+    depsOrReadyCondition: DependencyList | ((loaded: W) => boolean),
+    optionsOrFetcher?:
+        | UseLoadableOptions<T>
+        | ((loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>),
+    dependencies: DependencyList = [],
+    lastParam?: ((e: unknown) => void) | UseLoadableOptions<R>
+): [Loadable<T> | Loadable<R>, () => Promise<void>] {
+    if (typeof depsOrReadyCondition === "function") {
+        const [value, reload] = useLoadableCore(
+            fetcherOrWaitable as W,
+            depsOrReadyCondition as (loaded: W) => boolean,
+            optionsOrFetcher as (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+            dependencies,
+            lastParam
+        )
+        return [value, reload]
+    }
+
+    const options = optionsOrFetcher as UseLoadableOptions<T> | undefined
+    const [value, reload] = useLoadableCore(
+        loading,
+        () => true,
+        withPrefetched(fetcherOrWaitable as Fetcher<T>, options?.prefetched),
+        depsOrReadyCondition as DependencyList,
+        options
+    )
+    return [value, reload]
+}
+
+/**
+ * A variant of `useThen` that returns a `[Loadable<R>, reload]` tuple.
+ *
+ * @remarks
+ * See `useLoadableWithReload` for how `reload()` behaves. While `loadable` hasn't loaded,
+ * `reload()` has nothing to chain from and resolves straight away.
+ *
+ * @example
+ * ```ts
+ * const user = useLoadable(() => fetchUser(userId), [userId])
+ * const [posts, reloadPosts] = useThenWithReload(user, (u) => fetchPostsForUser(u.id))
+ * ```
+ *
+ * @public
+ */
+export function useThenWithReload<T, R>(
+    loadable: Loadable<T>,
+    fetcher: (loaded: T, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList = [hasLoaded(loadable)],
+    options?: UseLoadableOptions<R>
+): [Loadable<R>, () => Promise<void>] {
+    return useLoadableWithReload(
+        loadable,
+        l => hasLoaded(l),
+        async (val, abort, onProgress) => map(val, v => fetcher(v, abort, onProgress)),
+        dependencies,
+        options
+    )
+}
+
+/**
+ * A variant of `useAllThen` that returns a `[Loadable<R>, reload]` tuple.
+ *
+ * @remarks
+ * See `useLoadableWithReload` for how `reload()` behaves.
+ *
+ * @public
+ */
+export function useAllThenWithReload<T extends Loadable<any>[], R>(
+    loadables: [...T],
+    fetcher: (...args: [...LoadableParameters<T>, AbortSignal, ProgressReporter?]) => Promise<R>,
+    dependencies: DependencyList = loadables,
+    options?: UseLoadableOptions<R>
+): [Loadable<R>, () => Promise<void>] {
+    const combined = all(...loadables)
+    return useThenWithReload(
+        combined,
+        (vals, signal, onProgress) =>
+            fetcher(...(vals as LoadableParameters<T>), signal, onProgress),
+        dependencies,
+        options
+    )
+}
+
+// -------------------------------------------------------------------
+// useLoadableWithCleanup
+// -------------------------------------------------------------------
+
+/**
+ * Overload: `useLoadableWithCleanup(waitable, readyCondition, fetcher, deps, optionsOrOnError?)`.
+ */
+export function useLoadableWithCleanup<W, R>(
+    waitable: W,
+    readyCondition: (loaded: W) => boolean,
+    fetcher: (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList,
+    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
+): [Loadable<R>, () => void]
+
+/**
+ * Overload: `useLoadableWithCleanup(fetcher, deps, options?)`.
+ */
+export function useLoadableWithCleanup<T>(
+    fetcher: Fetcher<T>,
+    deps: DependencyList,
+    options?: UseLoadableOptions<T>
+): [Loadable<T>, () => void]
+
+/**
+ * A variant of `useLoadable` that returns a `[Loadable<T>, cleanupFunc]` tuple.
+ *
+ * @remarks
+ * This lets you manually call `cleanupFunc()` to abort any in-flight request,
+ * instead of waiting for an unmount or effect re-run. An aborted load is a cancellation,
+ * not a failure: the loadable keeps its current state rather than settling to a `LoadError`.
+ *
+ * @returns A tuple: `[Loadable<T>, cleanupFunc]`.
+ *
+ * @example
+ * ```ts
+ * const [userLoadable, cleanup] = useLoadableWithCleanup(fetchUser, [])
+ *
+ * // Manually abort the current fetch:
+ * cleanup()
+ * ```
+ *
+ * @public
+ */
+export function useLoadableWithCleanup<T, W, R>(
+    fetcherOrWaitable: Fetcher<T> | W,
+    depsOrReadyCondition: DependencyList | ((loaded: W) => boolean),
+    optionsOrFetcher?:
+        | UseLoadableOptions<T>
+        | ((loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>),
+    dependencies: DependencyList = [],
+    lastParam?: ((e: unknown) => void) | UseLoadableOptions<R>
+): [Loadable<T> | Loadable<R>, () => void] {
+    if (typeof depsOrReadyCondition === "function") {
+        // CASE 1
+        const [value, , cleanupFunc] = useLoadableCore(
+            fetcherOrWaitable as W,
+            depsOrReadyCondition as (loaded: W) => boolean,
+            optionsOrFetcher as (loaded: W, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+            dependencies,
+            lastParam
+        )
+        return [value, cleanupFunc]
+    }
+
+    // CASE 2: always "ready"
+    const options = optionsOrFetcher as UseLoadableOptions<T> | undefined
+    const [value, , cleanupFunc] = useLoadableCore(
+        loading,
+        () => true,
+        withPrefetched(fetcherOrWaitable as Fetcher<T>, options?.prefetched),
+        depsOrReadyCondition as DependencyList,
+        options
+    )
+    return [value, cleanupFunc]
+}
+
+// -------------------------------------------------------------------
+// useMutation
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `useMutation`.
+ *
+ * @typeParam A - The arguments passed to `mutate`.
+ * @typeParam R - The mutation's result type.
+ * @typeParam C - Whatever `onMutate` returns, handed to the other callbacks (e.g. a value to roll back to).
+ *
+ * @public
+ */
+export interface UseMutationOptions<A, R, C = unknown> {
+    /**
+     * Called before the mutator runs. Use it to apply an optimistic update (e.g. via
+     * `setCached`) and return whatever `onError` needs to roll it back.
+     */
+    onMutate?: (args: A) => C | Promise<C>
+    /**
+     * Called after the mutator resolves, with the context returned by `onMutate`.
+     */
+    onSuccess?: (result: R, args: A, context: C) => void | Promise<void>
+    /**
+     * Called after the mutator (or `onMutate`) fails. `context` is `undefined` if `onMutate` itself failed.
+     */
+    onError?: (error: unknown, args: A, context: C | undefined) => void | Promise<void>
+    /**
+     * Where this hook's mutator calls go in the scheduler's queue: higher runs first. Defaults to
+     * `0`. Only matters once a concurrency limit is set (see `configureScheduler`).
+     */
+    priority?: number
+    /**
+     * The scheduler group this hook's mutator calls count against, on top of the global limit
+     * (see `configureScheduler`).
+     */
+    group?: string
+}
+
+/**
+ * A hook for writes: returns a `[Loadable<R> | undefined, mutate]` tuple.
+ *
+ * @remarks
+ * The loadable is `undefined` until `mutate` is first called, `loading` while a mutation
+ * is in flight, then the result or a `LoadError`. If `mutate` is called again before
+ * an earlier call settles, only the latest call's outcome is kept.
+ *
+ * `mutate(args)` never rejects: it resolves with the same result or `LoadError` the
+ * loadable settles to. The mutator's `AbortSignal` aborts when the component unmounts.
+ * A call aborted by that signal doesn't settle: `mutate` resolves with `undefined`, the
+ * loadable goes back to `undefined`, and `onError` isn't called. Any other abort fails the
+ * call with an `AbortedLoadError`, like any other error.
+ *
+ * The mutator goes through the scheduler like any fetch (see `configureScheduler`), while
+ * `onMutate` runs straight away, so an optimistic update doesn't wait for a slot.
+ *
+ * @param mutator - Performs the write.
+ * @param options - Optional callbacks for optimistic updates and rollback, and scheduling.
+ * @returns A tuple: `[Loadable<R> | undefined, mutate]`. `mutate` is stable across renders.
+ *
+ * @example
+ * ```ts
+ * const [saved, addTodo] = useMutation(
+ *   (todo: Todo, signal) => postTodo(todo, signal),
+ *   {
+ *     onMutate: async todo => {
+ *       const previous = await readCache<Todo[]>("todos")
+ *       await setCached("todos", [...(previous?.value ?? []), todo])
+ *       return previous
+ *     },
+ *     onError: async (_error, _todo, previous) => {
+ *       if (previous) await setCached("todos", previous.value)
+ *     },
+ *   }
+ * )
+ * ```
+ *
+ * @public
+ */
+export function useMutation<A, R, C = unknown>(
+    mutator: (args: A, signal: AbortSignal) => Promise<R>,
+    options?: UseMutationOptions<A, R, C>
+): [Loadable<R> | undefined, (args: A) => Promise<Loadable<R> | undefined>] {
+    const [value, setValue] = useState<Loadable<R> | undefined>(undefined)
+    const abortControllerRef = useRef<AbortController | null>(null)
+    // Numbers each call, so only the latest one settles the loadable. (Timestamps can't
+    // order calls made within the same millisecond.)
+    const lastCallRef = useRef(0)
+
+    // Only abort on unmount: a new mutation must not cancel an earlier write
+    useEffect(() => {
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        return () => controller.abort()
+    }, [])
+
+    // `mutate` must see the latest mutator and callbacks
+    const latestRef = useRef({ mutator, options })
+    latestRef.current = { mutator, options }
+
+    const mutate = useCallback(async (args: A): Promise<Loadable<R> | undefined> => {
+        const { mutator, options } = latestRef.current
+        const call = ++lastCallRef.current
+        const settle = (outcome: Loadable<R> | undefined) => {
+            if (call === lastCallRef.current) setValue(outcome)
+        }
+        const signal = abortControllerRef.current?.signal ?? new AbortController().signal
+        setValue(loading)
+
+        let context: C | undefined
+        let result: R
+        try {
+            context = await options?.onMutate?.(args)
+            result = await scheduleFetch(() => mutator(args, signal), signal, options ?? {})
+        } catch (e) {
+            // Our own abort isn't a failure, so there is nothing to roll back, nor anything to settle to
+            if (signal.aborted) {
+                settle(undefined)
+                return undefined
+            }
+            const error = toLoadError(e)
+            try {
+                await options?.onError?.(e, args, context)
+            } catch (rollbackError) {
+                console.error(rollbackError)
+            }
+            settle(error)
+            return error
+        }
+
+        // The write went through, so a failing callback doesn't fail the mutation
+        try {
+            await options?.onSuccess?.(result, args, context as C)
+        } catch (e) {
+            console.error(e)
+        }
+        settle(result)
+        return result
+    }, [])
+
+    return [value, mutate]
+}
+
+// -------------------------------------------------------------------
+// useInfiniteLoadable
+// -------------------------------------------------------------------
+
+/**
+ * Fetches one page of an infinite list. `cursor` is `undefined` for the first page.
+ *
+ * @typeParam T - The page type.
+ * @typeParam C - The cursor type (a page number, an offset, an opaque token...).
+ *
+ * @public
+ */
+export type PageFetcher<T, C> = (cursor: C | undefined, signal: AbortSignal) => Promise<T>
+
+/**
+ * The options object for `useInfiniteLoadable`. A `cache` entry holds every loaded page, as one array.
+ *
+ * @public
+ */
+export type UseInfiniteLoadableOptions<T> = Pick<
+    UseLoadableOptions<T[]>,
+    "onError" | "cache" | "retry" | "label" | "priority" | "group"
+>
+
+/**
+ * A hook for "load more" lists: fetches the first page, then one more page per `loadNext()` call.
+ *
+ * @remarks
+ * Returns a `[pages, loadNext, hasNext, pageStates]` tuple:
+ * - `pages` is `loading` (or a `LoadError`) until the first page arrives, then every loaded page, in order;
+ * - `loadNext()` fetches the page after the last loaded one, retries the last page if it failed,
+ *   and resolves once it settles. While a page is in flight it returns that page's promise instead;
+ * - `hasNext` is whether `getNextCursor` returned a cursor for the last loaded page;
+ * - `pageStates` holds one loadable per page, the last of which may be `loading` or a `LoadError`.
+ *
+ * When the dependencies change, every page is cancelled and the list starts over from the first page.
+ * With `cache`, the loaded pages are cached under its key: a fresh entry is shown without fetching,
+ * and a stale one is shown while its pages are refetched. If refetching fails, the cached pages
+ * stay, and the `LoadError` is added to `pageStates` after them.
+ *
+ * @param fetchPage - Fetches the page for a cursor.
+ * @param getNextCursor - Returns the cursor of the page after `lastPage`, or `undefined` at the end of the list.
+ * @param dependencies - When these change, the list is reloaded from the first page.
+ * @param options - Optional `onError`, `cache`, `retry` and `label`, as for `useLoadable`.
+ *
+ * @example
+ * ```ts
+ * const [pages, loadNext, hasNext] = useInfiniteLoadable(
+ *   (cursor: string | undefined, signal) => fetchFeed(cursor, signal),
+ *   lastPage => lastPage.nextCursor,
+ *   []
+ * )
+ * ```
+ *
+ * @public
+ */
+export function useInfiniteLoadable<T, C>(
+    fetchPage: PageFetcher<T, C>,
+    getNextCursor: (lastPage: T, pages: T[]) => C | undefined,
+    dependencies: DependencyList,
+    options?: UseInfiniteLoadableOptions<T>
+): [Loadable<T[]>, () => Promise<void>, boolean, Loadable<T>[]] {
+    const cacheObj = parseCacheOption(options?.cache, dependencies)
+    const source: LoadSource = { label: options?.label, key: cacheObj.key, dependencies }
+    const [pageStates, setPageStates] = useLatestState<Loadable<T>[]>([loading])
+    const abort = useAbort()
+
+    // The loads below must see the latest fetchers and options
+    const latestRef = useRef({ fetchPage, getNextCursor, options })
+    latestRef.current = { fetchPage, getNextCursor, options }
+
+    // The pages loaded so far, the current signal and the page in flight, kept outside
+    // of state so that `loadNext` never has to wait for a render
+    const pagesRef = useRef<T[]>([])
+    const signalRef = useRef<AbortSignal | null>(null)
+    const pendingRef = useRef<Promise<void> | null>(null)
+    // The start time of the latest load, which values pushed by `setCached` are stamped with
+    const loadStartRef = useRef<TimeStamp>(0)
+
+    function nextCursor(pages: T[]): C | undefined {
+        return pages.length === 0
+            ? undefined
+            : latestRef.current.getNextCursor(pages[pages.length - 1], pages)
+    }
+
+    function fetchOne(cursor: C | undefined, signal: AbortSignal, onRetry: (attempt: number) => void) {
+        const { fetchPage, options } = latestRef.current
+        const tracked = trackLoad(source, signal)
+        return fetchWithRetry(
+            s => scheduleFetch(() => fetchPage(cursor, s), s, options ?? {}),
+            parseRetryOption(options?.retry),
+            signal,
+            onRetry,
+            () => {}
+        ).then(
+            page => {
+                tracked.succeed()
+                return page
+            },
+            e => {
+                tracked.fail(toLoadError(e))
+                throw e
+            }
+        )
+    }
+
+    function settle(pages: T[], startTime: TimeStamp) {
+        pagesRef.current = pages
+        setPageStates(pages, startTime)
+        cacheResult(source, cacheObj, pages)
+    }
+
+    function fail(e: unknown, index: number, startTime: TimeStamp) {
+        // Only called when our own signal didn't abort: any other abort is a failure
+        const error = toLoadError(e)
+        latestRef.current.options?.onError?.(e)
+        setPageStates(states => [...states.slice(0, index), error], startTime)
+    }
+
+    /** Fetches the page after the last loaded one. */
+    function fetchNext(signal: AbortSignal): Promise<void> {
+        const startTime = currentTimestamp()
+        loadStartRef.current = startTime
+        const pages = pagesRef.current
+        const index = pages.length
+        setPageStates(states => [...states.slice(0, index), loading], startTime)
+        return fetchOne(nextCursor(pages), signal, attempt => {
+            setPageStates(
+                states => [...states.slice(0, index), new LoadingToken(startTime, attempt)],
+                startTime
+            )
+        }).then(
+            page => {
+                if (!signal.aborted) settle([...pages, page], startTime)
+            },
+            e => {
+                if (!signal.aborted) fail(e, index, startTime)
             }
-        }, [...dependencies, ready, hideReload])
+        )
+    }
 
-        return value
+    /** Refetches the first `count` pages in the background, then swaps them in. */
+    async function refetchPages(count: number, signal: AbortSignal): Promise<void> {
+        const startTime = currentTimestamp()
+        loadStartRef.current = startTime
+        const pages: T[] = []
+        try {
+            while (pages.length < count) {
+                const cursor = nextCursor(pages)
+                if (pages.length > 0 && cursor === undefined) break
+                pages.push(await fetchOne(cursor, signal, () => {}))
+            }
+        } catch (e) {
+            // Keep the cached pages on screen: the error goes where the next page would
+            if (!signal.aborted) fail(e, pagesRef.current.length, startTime)
+            return
+        }
+        if (!signal.aborted) settle(pages, startTime)
     }
 
-    // ============================
-    // CASE 2: fetcher + deps + options
-    // ============================
-    const fetcher = fetcherOrWaitable as Fetcher<T>
-    const deps = depsOrReadyCondition as DependencyList
-    const options = optionsOrFetcher as UseLoadableOptions<T> | undefined
+    function track(promise: Promise<void>): Promise<void> {
+        const tracked = promise.finally(() => {
+            if (pendingRef.current === tracked) pendingRef.current = null
+        })
+        pendingRef.current = tracked
+        return tracked
+    }
 
-    // Parse the cache field
-    const { key: cacheKey, store: cacheStore } = parseCacheOption(options?.cache)
+    /** Cancels every page and starts over from the cache, or the first page. */
+    function start() {
+        const signal = abort()
+        const startTime = currentTimestamp()
+        loadStartRef.current = startTime
+        signalRef.current = signal
+        pagesRef.current = []
+        setPageStates([loading], startTime)
 
-    // We'll piggyback on the waitable approach, with a "dummy" waitable always ready
-    return useLoadable(
-        loading,
-        () => true,
-        async (_ignored, signal) => {
-            //
-            // 1) Attempt to read from cache (if we have cacheKey)
-            //
-            if (cacheKey) {
-                const cachedData = await readCache<T>(cacheKey, cacheStore)
-                if (cachedData !== undefined) {
-                    // Found a valid cached value
-                    return cachedData
+        track(
+            readUsableCache<T[]>(cacheObj, source).then(cached => {
+                if (signal.aborted) return
+                if (!cached) return fetchNext(signal)
+                pagesRef.current = cached.value
+                setPageStates(cached.value, startTime)
+                if (!cached.fresh) return refetchPages(cached.value.length, signal)
+            })
+        )
+    }
+
+    /** Shows the entry another tab wrote for our key, without refetching. */
+    function reread() {
+        const loadStart = loadStartRef.current
+        readCacheEntry<T[]>(cacheObj.key!, cacheObj.store, cacheObj).then(entry => {
+            // A load started meanwhile has newer pages
+            if (!entry || loadStartRef.current !== loadStart) return
+            pagesRef.current = entry.value
+            setPageStates(entry.value, loadStart)
+        })
+    }
+
+    const startRef = useRef(start)
+    startRef.current = start
+    const rereadRef = useRef(reread)
+    rereadRef.current = reread
+
+    useEffect(() => {
+        start()
+        return () => {
+            abort()
+        }
+    }, dependencies)
+
+    // Follow `setCached` and `invalidate` calls for our key
+    useEffect(() => {
+        if (!cacheObj.key) return
+        return subscribeToCacheKey(cacheObj.key, event => {
+            if (event.type === "set") {
+                // Don't supersede a page in flight: it still lands when it settles
+                pagesRef.current = event.value as T[]
+                setPageStates(event.value as T[], loadStartRef.current)
+            } else if (event.type === "changed") {
+                rereadRef.current()
+            } else {
+                startRef.current()
+            }
+        })
+    }, [cacheObj.key])
+
+    const loadNext = useCallback((): Promise<void> => {
+        const signal = signalRef.current
+        if (pendingRef.current) return pendingRef.current
+        if (!signal || signal.aborted) return Promise.resolve()
+        const pages = pagesRef.current
+        if (pages.length > 0 && nextCursor(pages) === undefined) return Promise.resolve()
+        return track(fetchNext(signal))
+    }, [])
+
+    const pages = useMemo((): Loadable<T[]> => {
+        const first = pageStates[0]
+        if (isLoadingValue(first) || first instanceof LoadError) return first
+        const loaded: T[] = []
+        for (const state of pageStates) {
+            if (!hasLoaded(state)) break
+            loaded.push(state)
+        }
+        return loaded
+    }, [pageStates])
+
+    const hasNext = hasLoaded(pages) && pages.length > 0 && nextCursor(pages) !== undefined
+
+    return [pages, loadNext, hasNext, pageStates]
+}
+
+// -------------------------------------------------------------------
+// useStreamLoadable
+// -------------------------------------------------------------------
+
+/**
+ * Starts a stream of values: an `AsyncIterable` (e.g. an async generator) or a `ReadableStream`.
+ *
+ * @param signal - Aborts when the hook no longer needs the stream.
+ * @returns The stream, or a promise of it (e.g. after awaiting a `fetch` response).
+ *
+ * @public
+ */
+export type StreamFetcher<T> = (
+    signal: AbortSignal
+) => AsyncIterable<T> | ReadableStream<T> | Promise<AsyncIterable<T> | ReadableStream<T>>
+
+/**
+ * The options object for `useStreamLoadable`.
+ *
+ * @typeParam T - The type of each chunk.
+ * @typeParam R - The accumulated type, when using a `reducer`.
+ *
+ * @public
+ */
+export interface UseStreamLoadableOptions<T, R = T> {
+    /**
+     * An optional callback for stream errors. Called with the raw error object.
+     * Never called for aborted streams.
+     */
+    onError?: (error: unknown) => void
+    /**
+     * A name for this hook's streams, reported in inspector events (see `subscribeToLoadEvents`).
+     */
+    label?: string
+    /**
+     * Folds each chunk into the accumulated value, e.g. to concatenate text tokens.
+     * Without it, the hook holds the latest chunk.
+     */
+    reducer?: (accumulated: R, chunk: T) => R
+    /**
+     * The value the `reducer` starts from.
+     */
+    initial?: R
+    /**
+     * Where this hook's streams go in the scheduler's queue: higher runs first. Defaults to `0`.
+     * Only matters once a concurrency limit is set (see `configureScheduler`).
+     */
+    priority?: number
+    /**
+     * The scheduler group this hook's streams count against, on top of the global limit
+     * (see `configureScheduler`).
+     */
+    group?: string
+}
+
+/**
+ * Iterates over either kind of stream, stopping as soon as `signal` aborts.
+ *
+ * @internal
+ */
+async function* readStream<T>(
+    source: AsyncIterable<T> | ReadableStream<T>,
+    signal: AbortSignal
+): AsyncGenerator<T> {
+    if (typeof (source as ReadableStream<T>).getReader !== "function") {
+        const iterator = (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+        // An iterable that ignores `signal` would only stop after its next chunk, so race each
+        // `next()` against the abort
+        let onAbort!: () => void
+        const aborted = new Promise<IteratorResult<T>>(resolve => {
+            onAbort = () => resolve({ done: true, value: undefined })
+        })
+        signal.addEventListener("abort", onAbort, { once: true })
+        let finished = false
+        try {
+            while (!signal.aborted) {
+                const result = await Promise.race([iterator.next(), aborted])
+                if (signal.aborted) return
+                if (result.done) {
+                    finished = true
+                    return
                 }
+                yield result.value
             }
+        } finally {
+            signal.removeEventListener("abort", onAbort)
+            // Like leaving a `for await` loop early, let the iterable clean up
+            if (!finished) iterator.return?.()?.catch(() => {})
+        }
+        return
+    }
 
-            //
-            // 2) If there's a prefetched loadable
-            //
-            if (options?.prefetched !== undefined) {
-                if (options.prefetched === loading) {
-                    return fetcher(signal)
-                } else if (options.prefetched instanceof LoadError) {
-                    throw options.prefetched
-                } else if (isLoadingValue(options.prefetched)) {
-                    // e.g. a LoadingToken
-                    return fetcher(signal)
-                } else {
-                    // Otherwise it's a T
-                    if (cacheKey) {
-                        await writeCache(cacheKey, options.prefetched, cacheStore)
-                    }
-                    return options.prefetched
+    const reader = (source as ReadableStream<T>).getReader()
+    // Cancelling settles a pending `read()`, so an idle stream stops straight away
+    const onAbort = () => {
+        reader.cancel(signal.reason).catch(() => {})
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    try {
+        while (!signal.aborted) {
+            const { done, value } = await reader.read()
+            if (done || signal.aborted) return
+            yield value
+        }
+    } finally {
+        signal.removeEventListener("abort", onAbort)
+        reader.releaseLock()
+    }
+}
+
+/**
+ * Overload: accumulates every chunk through `reducer`, starting from `initial`.
+ */
+export function useStreamLoadable<T, R>(
+    fetcher: StreamFetcher<T>,
+    dependencies: DependencyList,
+    options: UseStreamLoadableOptions<T, R> & { reducer: (accumulated: R, chunk: T) => R; initial: R }
+): [Loadable<R>, boolean]
+
+/**
+ * Overload: holds the latest chunk.
+ */
+export function useStreamLoadable<T>(
+    fetcher: StreamFetcher<T>,
+    dependencies: DependencyList,
+    options?: Pick<UseStreamLoadableOptions<T>, "onError" | "label" | "priority" | "group">
+): [Loadable<T>, boolean]
+
+/**
+ * A hook for values that arrive over time (LLM output, server-sent events, NDJSON...): returns
+ * a `[Loadable, done]` tuple.
+ *
+ * @remarks
+ * The loadable is `loading` until the first chunk arrives. It then holds the latest chunk or,
+ * with a `reducer`, everything accumulated so far. `done` turns true once the stream has ended.
+ * A stream that fails settles to a `LoadError`; one that ends without any chunk settles to
+ * `initial` with a reducer, and to a `LoadError` without.
+ *
+ * Like `useLoadable`, the stream is aborted (and cancelled, for a `ReadableStream`) when the
+ * dependencies change or the component unmounts. The hook stops reading straight away, even
+ * from an `AsyncIterable` that ignores the signal, and ignores whatever it yields afterwards.
+ *
+ * A stream takes a slot from the scheduler (see `configureScheduler`) before it starts, and
+ * holds it until it ends.
+ *
+ * @param fetcher - Starts the stream.
+ * @param dependencies - When these change, the stream is aborted and started afresh.
+ * @param options - Optional `onError`, `label`, `priority` and `group`, plus `reducer` and `initial`
+ * to accumulate chunks.
+ *
+ * @example
+ * ```ts
+ * const [answer, done] = useStreamLoadable(
+ *   async signal => {
+ *     const response = await fetch("/api/chat", { method: "POST", body: prompt, signal })
+ *     return response.body!.pipeThrough(new TextDecoderStream())
+ *   },
+ *   [prompt],
+ *   { reducer: (text, token) => text + token, initial: "" }
+ * )
+ * ```
+ *
+ * @public
+ */
+export function useStreamLoadable<T, R>(
+    fetcher: StreamFetcher<T>,
+    dependencies: DependencyList,
+    options?: UseStreamLoadableOptions<T, R>
+): [Loadable<T | R>, boolean] {
+    const [value, setValue] = useLatestState<Loadable<T | R>>(loading)
+    const [done, setDone] = useLatestState(false)
+    const abort = useAbort()
+
+    // The stream must see the latest fetcher and options
+    const latestRef = useRef({ fetcher, options })
+    latestRef.current = { fetcher, options }
+
+    useEffect(() => {
+        const { fetcher, options } = latestRef.current
+        const startTime = currentTimestamp()
+        const signal = abort()
+        setValue(loading, startTime)
+        setDone(false, startTime)
+        const tracked = trackLoad({ label: options?.label, dependencies }, signal)
+
+        const reducer = options?.reducer
+        let accumulated = options?.initial as R
+        let received = false
+
+        const read = async () => {
+            const source = await fetcher(signal)
+            for await (const chunk of readStream(source, signal)) {
+                const next: T | R = reducer ? (accumulated = reducer(accumulated, chunk)) : chunk
+                received = true
+                setValue(() => next, startTime)
+            }
+        }
+
+        // The slot is held until the stream ends
+        scheduleFetch(read, signal, options ?? {})
+            .then(() => {
+                if (signal.aborted) return
+                if (!received) {
+                    if (!reducer) throw new LoadError(undefined, "The stream ended without a value")
+                    setValue(() => accumulated, startTime)
                 }
+                tracked.succeed()
+                setDone(true, startTime)
+            })
+            .catch(e => {
+                // Our own aborts are routine cancellations, not failures
+                if (signal.aborted) return
+                // Other aborts (e.g. the stream's own) are failures
+                const error = toLoadError(e)
+                tracked.fail(error)
+                latestRef.current.options?.onError?.(e)
+                setValue(error, startTime)
+            })
+
+        return () => {
+            abort()
+        }
+    }, dependencies)
+
+    return [value, done]
+}
+
+// -------------------------------------------------------------------
+// Suspense
+// -------------------------------------------------------------------
+
+/**
+ * The options object for `useSuspenseLoadable` and `useSuspenseThen`.
+ *
+ * @remarks
+ * A component that suspends before its first commit loses all of its state, so suspense
+ * hooks need a stable identity for their load that lives outside of React. That's either
+ * `key`, or the cache key when `cache` is set.
+ *
+ * @public
+ */
+export type UseSuspenseLoadableOptions<T> = UseLoadableOptions<T> &
+    (
+        | {
+              /**
+               * Identifies this load across suspended renders, together with the dependencies:
+               * a string or an array of parts, like a cache key. Defaults to the cache key.
+               */
+              key: CacheKey
+          }
+        | { cache: CacheKeyOption | CacheOption }
+    )
+
+/**
+ * One suspending load, kept outside of React so it survives the suspended renders.
+ *
+ * @internal
+ */
+interface SuspenseResource<T> {
+    deps: DependencyList
+    controller: AbortController
+    promise: Promise<T>
+    status: "pending" | "fulfilled" | "rejected"
+    value?: T
+    error?: LoadError
+    /**
+     * How many mounted hooks use this resource.
+     */
+    users: number
+}
+
+/**
+ * Suspense resources: per key, one resource per list of dependencies.
+ *
+ * @internal
+ */
+type SuspenseResources = Map<string, SuspenseResource<unknown>[]>
+
+/**
+ * The resources of every suspense hook in the browser.
+ *
+ * @internal
+ */
+const suspenseResources: SuspenseResources = new Map()
+
+/**
+ * Where suspense hooks rendering right now keep their resources.
+ *
+ * @remarks
+ * On the server, a module-wide map would hand one request's data to the next, so resources
+ * belong to the current server render (see `renderWithLoadables`) instead. Outside of one,
+ * they aren't kept at all.
+ *
+ * @internal
+ */
+function suspenseResourcesInScope(): SuspenseResources {
+    if (activeServerRender) return activeServerRender.suspenseResources
+    return typeof window === "undefined" ? new Map() : suspenseResources
+}
+
+/**
+ * Checks whether two dependency lists hold the same values (compared with `Object.is`).
+ *
+ * @internal
+ */
+function depsEqual(a: DependencyList, b: DependencyList): boolean {
+    return a.length === b.length && a.every((dep, i) => Object.is(dep, b[i]))
+}
+
+/**
+ * Finds the resource for `key` and `deps`, if there is one.
+ *
+ * @internal
+ */
+function findSuspenseResource(
+    resources: SuspenseResources,
+    key: string,
+    deps: DependencyList
+): SuspenseResource<unknown> | undefined {
+    return resources.get(key)?.find(resource => depsEqual(resource.deps, deps))
+}
+
+/**
+ * Adds a resource under `key`, replacing one with the same dependencies.
+ *
+ * @internal
+ */
+function addSuspenseResource(resources: SuspenseResources, key: string, resource: SuspenseResource<unknown>) {
+    const others = (resources.get(key) ?? []).filter(r => !depsEqual(r.deps, resource.deps))
+    resources.set(key, [...others, resource])
+}
+
+/**
+ * Removes a resource from under `key` (if it's still there) and aborts it.
+ *
+ * @internal
+ */
+function removeSuspenseResource(resources: SuspenseResources, key: string, resource: SuspenseResource<unknown>) {
+    const others = (resources.get(key) ?? []).filter(r => r !== resource)
+    if (others.length > 0) {
+        resources.set(key, others)
+    } else {
+        resources.delete(key)
+    }
+    resource.controller.abort()
+}
+
+/**
+ * How long a settled resource that no mounted hook uses is kept, in milliseconds.
+ *
+ * @remarks
+ * Long enough for the render that suspended on it to retry and commit; a render
+ * that never commits (it was interrupted, or ran on the server) leaves it unused.
+ *
+ * @internal
+ */
+const UNUSED_SUSPENSE_RESOURCE_TTL = 5_000
+
+/**
+ * Drops `resource` from the browser's resources once it has settled, unless a mounted hook uses it by then.
+ *
+ * @internal
+ */
+function expireIfUnused(key: string, resource: SuspenseResource<unknown>) {
+    const expire = () =>
+        setTimeout(() => {
+            if (resource.users === 0 && findSuspenseResource(suspenseResources, key, resource.deps) === resource) {
+                removeSuspenseResource(suspenseResources, key, resource)
             }
+        }, UNUSED_SUSPENSE_RESOURCE_TTL)
+    resource.promise.then(expire, expire)
+}
+
+/**
+ * Drops a rejected resource, so that the next render (e.g. after its error boundary resets) retries.
+ *
+ * @remarks
+ * Waits for a microtask: the render throwing the error, React's retry of it and the commit
+ * of the error boundary all happen synchronously, and must keep seeing the same error.
+ *
+ * @internal
+ */
+function forgetRejectedSuspenseResource(
+    resources: SuspenseResources,
+    key: string,
+    resource: SuspenseResource<unknown>
+) {
+    queueMicrotask(() => {
+        if (findSuspenseResource(resources, key, resource.deps) === resource) {
+            removeSuspenseResource(resources, key, resource)
+        }
+    })
+}
+
+/**
+ * Starts loading a resource: through the cache, the in-flight registry and retries,
+ * just like the non-suspending hooks.
+ *
+ * @internal
+ */
+function createSuspenseResource<T>(
+    fetcher: Fetcher<T>,
+    deps: DependencyList,
+    options?: UseLoadableOptions<T>
+): SuspenseResource<T> {
+    const cache = parseCacheOption(options?.cache, deps)
+    const retry = parseRetryOption(options?.retry)
+    const prefetched = options?.prefetched
+    const source: LoadSource = { label: options?.label, key: cache.key, dependencies: deps }
+    // The load outlives a server render's synchronous pass, but must keep to its store and requests
+    const server = activeServerRender
+    const resource: SuspenseResource<T> = {
+        deps,
+        controller: new AbortController(),
+        promise: Promise.resolve() as Promise<never>,
+        status: "pending",
+        users: 0,
+    }
+
+    // A prefetched value needs no suspending at all
+    if (prefetched !== undefined && hasLoaded(prefetched)) {
+        cacheResult(source, cache, prefetched)
+        resource.promise = Promise.resolve(prefetched)
+        resource.status = "fulfilled"
+        resource.value = prefetched
+        return resource
+    }
+
+    async function fetchAndCache(): Promise<T> {
+        const tracked = trackLoad(source, resource.controller.signal)
+        let result: T
+        try {
+            result = await withTimeout(options?.timeout, resource.controller.signal, (signal, startTimer) =>
+                inServerRender(server, () =>
+                    runFetch(
+                        (s, report) => withPrefetched(fetcher, prefetched)(undefined, s, report),
+                        cache,
+                        retry,
+                        { ...options, onStart: startTimer },
+                        signal,
+                        () => {},
+                        () => {}
+                    )
+                )
+            )
+        } catch (e) {
+            tracked.fail(toLoadError(e))
+            throw e
+        }
+        tracked.succeed()
+        inServerRender(server, () => cacheResult(source, cache, result))
+        return result
+    }
 
-            //
-            // 3) Normal fetch
-            //
-            const data = await fetcher(signal)
-            if (cacheKey) {
-                await writeCache(cacheKey, data, cacheStore)
+    resource.promise = (async () => {
+        const cached = await inServerRender(server, () => readUsableCache<T>(cache, source))
+        if (cached) {
+            if (!cached.fresh) {
+                // Revalidate in the background; the hook picks the result up through `setCached`
+                fetchAndCache().catch(() => {})
             }
-            return data
+            return cached.value
+        }
+        return fetchAndCache()
+    })().then(
+        value => {
+            resource.status = "fulfilled"
+            resource.value = value
+            return value
         },
-        deps,
-        {
-            onError: options?.onError,
-            hideReload: options?.hideReload,
+        e => {
+            resource.status = "rejected"
+            resource.error = resource.controller.signal.aborted
+                ? new AbortedLoadError(e)
+                : toLoadError(e)
+            // Nobody is left to render a resource we aborted, and our aborts aren't failures
+            if (!resource.controller.signal.aborted) options?.onError?.(e)
+            throw resource.error
         }
-    ) as Loadable<T>
+    )
+    return resource
 }
 
-// -------------------------------------------------------------------
-// useThen + useAllThen
-// -------------------------------------------------------------------
+/**
+ * A suspending variant of `useLoadable` (simple form): returns the loaded `T` directly.
+ *
+ * @remarks
+ * While loading, the component suspends (via React's `use()`) and the nearest `<Suspense>`
+ * boundary shows its fallback. A failed load throws its `LoadError` to the nearest
+ * error boundary.
+ *
+ * Loads are kept in a resource cache, identified by `options.key` (or the cache key) plus
+ * `deps`, so the retried render after suspending picks up the same load instead of starting
+ * another. Hooks using the same key and deps share one load. On the server, the resource
+ * cache belongs to the current `renderWithLoadables` call, so requests never share a load.
+ *
+ * It keeps the rest of the `useLoadable` behaviour:
+ * - `cache`: fresh entries render without suspending on the fetch, stale ones are revalidated
+ *   in the background, and `setCached` / `invalidate` update or refetch the value;
+ * - `prefetched`: a loaded value is returned without suspending;
+ * - `retry` and `onError` work as usual;
+ * - changing `deps` suspends on a new load, and a load nobody uses anymore is aborted;
+ * - a failed load is forgotten once thrown, so resetting the error boundary retries it.
+ *
+ * `hideReload` does not apply; wrap the dependency change in `startTransition` to keep
+ * showing the previous value instead.
+ *
+ * @param fetcher - The async function to call.
+ * @param deps - Refetch (and suspend again) whenever these change.
+ * @param options - The same options as `useLoadable`, plus a `key` unless `cache` is set.
+ * @returns The loaded value.
+ *
+ * @example
+ * ```tsx
+ * function UserName({ id }: { id: string }) {
+ *   const user = useSuspenseLoadable(signal => fetchUser(id, signal), [id], { key: "user" })
+ *   return <span>{user.name}</span>
+ * }
+ *
+ * <ErrorBoundary fallback={<ErrorBanner />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <UserName id="42" />
+ *   </Suspense>
+ * </ErrorBoundary>
+ * ```
+ *
+ * @public
+ */
+export function useSuspenseLoadable<T>(
+    fetcher: Fetcher<T>,
+    deps: DependencyList,
+    options: UseSuspenseLoadableOptions<T>
+): T {
+    const [, rerender] = useReducer((n: number) => n + 1, 0)
+    const cacheObj = parseCacheOption(options.cache, deps)
+    const cacheKey = cacheObj.key
+    const key = "key" in options && options.key !== undefined ? serializeCacheKey(options.key) : cacheKey!
+
+    const resources = suspenseResourcesInScope()
+    let resource = findSuspenseResource(resources, key, deps) as SuspenseResource<T> | undefined
+    if (!resource) {
+        resource = createSuspenseResource(fetcher, deps, options)
+        addSuspenseResource(resources, key, resource)
+        // This render may never commit, in which case no hook will ever drop the resource.
+        // (A server render drops its resources itself.)
+        if (resources === suspenseResources) expireIfUnused(key, resource)
+    }
+
+    // Count this hook as a user while mounted; the last one to leave aborts and drops it.
+    // Re-adding covers StrictMode, which runs the cleanup once before re-running this.
+    useEffect(() => {
+        const current = resource
+        current.users++
+        if (findSuspenseResource(resources, key, current.deps) !== current) {
+            addSuspenseResource(resources, key, current)
+        }
+        return () => {
+            current.users--
+            if (current.users === 0) {
+                removeSuspenseResource(resources, key, current)
+            }
+        }
+    }, [key, resource])
+
+    // Follow `setCached` and `invalidate` calls for our cache key
+    const resourceRef = useRef(resource)
+    resourceRef.current = resource
+    const cacheRef = useRef(cacheObj)
+    cacheRef.current = cacheObj
+    useEffect(() => {
+        if (!cacheKey) return
+        const show = (resource: SuspenseResource<T>, value: T) => {
+            resource.promise = Promise.resolve(value)
+            resource.status = "fulfilled"
+            resource.value = value
+            rerender()
+        }
+        return subscribeToCacheKey(cacheKey, event => {
+            const current = resourceRef.current
+            if (event.type === "set") {
+                show(current, event.value as T)
+            } else if (event.type === "changed") {
+                // Another tab wrote the entry: show it once re-read, without suspending again
+                const cache = cacheRef.current
+                readCacheEntry<T>(cacheKey, cache.store, cache).then(entry => {
+                    if (entry && resourceRef.current === current) show(current, entry.value)
+                })
+            } else {
+                if (findSuspenseResource(resources, key, current.deps) === current) {
+                    removeSuspenseResource(resources, key, current)
+                }
+                rerender()
+            }
+        })
+    }, [key, cacheKey])
+
+    if (resource.status === "fulfilled") return resource.value as T
+    if (resource.status === "rejected") {
+        forgetRejectedSuspenseResource(resources, key, resource)
+        throw resource.error
+    }
+    return use(resource.promise)
+}
 
 /**
- * A hook that waits for a `loadable` to finish, then calls another async `fetcher`.
+ * A suspending variant of `useThen`: calls `fetcher` with an already-loaded value.
  *
  * @remarks
- * If `loadable` is still loading or has failed, this hook returns the same `loadable` state.
- * Otherwise, if `loadable` is loaded, it calls `fetcher(loadedValue)` and returns the result
- * as a new `Loadable<R>`.
+ * Under Suspense, upstream values are plain `T`s (e.g. from `useSuspenseLoadable`), so this
+ * takes the value itself rather than a `Loadable<T>`. See `useSuspenseLoadable` for the rest.
  *
- * @param loadable - The initial loadable value.
- * @param fetcher - A function that takes the successfully loaded data plus an abort signal, returning a promise.
- * @param dependencies - An optional list of dependencies to trigger re-runs. Defaults to `[hasLoaded(loadable)]`.
- * @param options - Optional `UseLoadableOptions` for error handling, caching, etc.
- * @returns A `Loadable<R>` that is `loading` until the chained fetch finishes, or a `LoadError` if it fails.
+ * @param value - The value to chain from.
+ * @param fetcher - Called with `value` and an `AbortSignal`.
+ * @param dependencies - Refetch whenever these change (usually `[value]`).
+ * @param options - The same options as `useSuspenseLoadable`.
+ * @returns The loaded value.
  *
  * @example
  * ```ts
- * const user = useLoadable(() => fetchUser(userId), [userId])
- * const posts = useThen(user, (u) => fetchPostsForUser(u.id))
+ * const user = useSuspenseLoadable(() => fetchUser(userId), [userId], { key: "user" })
+ * const posts = useSuspenseThen(user, (u, signal) => fetchPostsForUser(u.id, signal), [user], {
+ *   key: "posts",
+ * })
  * ```
  *
  * @public
  */
-export function useThen<T, R>(
-    loadable: Loadable<T>,
-    fetcher: (loaded: T, abort: AbortSignal) => Promise<R>,
-    dependencies: DependencyList = [hasLoaded(loadable)],
-    options?: UseLoadableOptions<R>
-): Loadable<R> {
-    return useLoadable(
-        loadable,
-        l => hasLoaded(l),
-        async (val, abort) => map(val, v => fetcher(v, abort)),
+export function useSuspenseThen<T, R>(
+    value: T,
+    fetcher: (loaded: T, abort: AbortSignal, onProgress?: ProgressReporter) => Promise<R>,
+    dependencies: DependencyList,
+    options: UseSuspenseLoadableOptions<R>
+): R {
+    return useSuspenseLoadable(
+        (signal, onProgress) => fetcher(value, signal, onProgress),
         dependencies,
         options
     )
 }
 
-/** @internal */
-type UnwrapLoadable<T> = T extends Loadable<infer U> ? U : never
-/** @internal */
-type LoadableParameters<T extends Loadable<any>[]> = {
-    [K in keyof T]: UnwrapLoadable<T[K]>
+// -------------------------------------------------------------------
+// Rendering components
+// -------------------------------------------------------------------
+
+/**
+ * The fallbacks shared by `<Loaded>` and `<LoadableBoundary>`.
+ *
+ * @public
+ */
+export interface LoadableFallbacks {
+    /**
+     * Rendered while loading. Defaults to nothing.
+     */
+    loading?: ReactNode
+    /**
+     * Rendered when a load failed: a node, or a function of the `LoadError`. Defaults to nothing.
+     */
+    error?: ReactNode | ((error: LoadError) => ReactNode)
+    /**
+     * Once shown, keep the `loading` fallback on screen for at least this many milliseconds,
+     * so that fast loads don't flash a spinner. Defaults to `0`.
+     */
+    minLoadingTime?: number
 }
 
 /**
- * A hook that waits for multiple loadables to finish, then calls a `fetcher` using all their loaded values.
+ * The props of `<Loaded>` for a single loadable.
  *
- * @remarks
- * Internally, it calls `all(...loadables)`. If any loadable is still loading or fails, the combined is `loading`.
- * Once all are loaded, calls `fetcher(...loadedValues, signal)` and returns a `Loadable<R>`.
+ * @public
+ */
+export interface LoadedProps<T> extends LoadableFallbacks {
+    /**
+     * The loadable to render.
+     */
+    value: Loadable<T>
+    /**
+     * Renders the loaded value.
+     */
+    children: (loaded: T) => ReactNode
+}
+
+/**
+ * The props of `<Loaded>` for several loadables at once.
  *
- * @param loadables - An array (spread) of loadable values, e.g. `[user, stats, posts]`.
- * @param fetcher - A function that takes each loaded value plus an `AbortSignal`.
- * @param dependencies - An optional list of dependencies to re-run the effect. Defaults to the loadables array.
- * @param options - Optional config for error handling, caching, etc.
- * @returns A loadable result of type `R`.
+ * @public
+ */
+export interface LoadedAllProps<T extends Loadable<unknown>[]> extends LoadableFallbacks {
+    /**
+     * The loadables to render, e.g. `[user, stats]`.
+     */
+    values: [...T]
+    /**
+     * Renders the loaded values, typed per position just like `all()`.
+     */
+    children: (...loaded: { [K in keyof T]: Loaded<T[K]> }) => ReactNode
+}
+
+/**
+ * Provides default fallbacks to every `<Loaded>` below a `<LoadableBoundary>`.
  *
- * @example
- * ```ts
- * const user = useLoadable(fetchUser, [])
- * const stats = useLoadable(fetchStats, [])
+ * @internal
+ */
+const LoadableBoundaryContext = createContext<LoadableFallbacks>({})
+
+/**
+ * Provides default `loading` / `error` fallbacks (and `minLoadingTime`) for every `<Loaded>` inside it.
  *
- * const combined = useAllThen(
- *   [user, stats],
- *   (u, s, signal) => fetchDashboard(u, s, signal),
- *   []
- * )
+ * @remarks
+ * A `<Loaded>` can still override any of them. Boundaries can be nested; the innermost wins.
+ *
+ * @example
+ * ```tsx
+ * <LoadableBoundary loading={<Spinner />} error={e => <Banner e={e} />} minLoadingTime={300}>
+ *   <Loaded value={user}>{u => <h1>{u.name}</h1>}</Loaded>
+ *   <Loaded value={posts}>{p => <PostList posts={p} />}</Loaded>
+ * </LoadableBoundary>
  * ```
  *
  * @public
  */
-export function useAllThen<T extends Loadable<any>[], R>(
-    loadables: [...T],
-    fetcher: (...args: [...LoadableParameters<T>, AbortSignal]) => Promise<R>,
-    dependencies: DependencyList = loadables,
-    options?: UseLoadableOptions<R>
-): Loadable<R> {
-    const combined = all(...loadables)
-    return useThen(
-        combined,
-        (vals, signal) => fetcher(...(vals as LoadableParameters<T>), signal),
-        dependencies,
-        options
+export function LoadableBoundary({
+    children,
+    ...fallbacks
+}: LoadableFallbacks & { children?: ReactNode }): ReactNode {
+    const outer = useContext(LoadableBoundaryContext)
+    return createElement(
+        LoadableBoundaryContext.Provider,
+        { value: { ...outer, ...fallbacks } },
+        children
     )
 }
 
-// -------------------------------------------------------------------
-// useLoadableWithCleanup
-// -------------------------------------------------------------------
+/**
+ * Keeps reporting "loading" until `minLoadingTime` has passed since loading was first shown.
+ *
+ * @internal
+ */
+function useMinLoadingTime(isLoading: boolean, minLoadingTime: number): boolean {
+    const [holdUntil, setHoldUntil] = useState<TimeStamp>(0)
+
+    useEffect(() => {
+        if (isLoading && minLoadingTime > 0) {
+            setHoldUntil(currentTimestamp() + minLoadingTime)
+        }
+    }, [isLoading, minLoadingTime])
+
+    useEffect(() => {
+        const remaining = holdUntil - currentTimestamp()
+        if (isLoading || remaining <= 0) return
+        const timer = setTimeout(() => setHoldUntil(0), remaining)
+        return () => clearTimeout(timer)
+    }, [isLoading, holdUntil])
+
+    return isLoading || holdUntil > currentTimestamp()
+}
 
 /**
- * Overload: `useLoadableWithCleanup(waitable, readyCondition, fetcher, deps, optionsOrOnError?)`.
+ * Overload: `<Loaded value={loadable}>{value => ...}</Loaded>`.
  */
-export function useLoadableWithCleanup<W, R>(
-    waitable: W,
-    readyCondition: (loaded: W) => boolean,
-    fetcher: (loaded: W, abort: AbortSignal) => Promise<R>,
-    dependencies: DependencyList,
-    optionsOrOnError?: ((e: unknown) => void) | UseLoadableOptions<R>
-): [Loadable<R>, () => void]
+export function Loaded<T>(props: LoadedProps<T>): ReactNode
 
 /**
- * Overload: `useLoadableWithCleanup(fetcher, deps, options?)`.
+ * Overload: `<Loaded values={[a, b]}>{(a, b) => ...}</Loaded>`.
  */
-export function useLoadableWithCleanup<T>(
-    fetcher: Fetcher<T>,
-    deps: DependencyList,
-    options?: UseLoadableOptions<T>
-): [Loadable<T>, () => void]
+export function Loaded<const T extends Loadable<unknown>[]>(props: LoadedAllProps<T>): ReactNode
 
 /**
- * A variant of `useLoadable` that returns a `[Loadable<T>, cleanupFunc]` tuple.
+ * Renders one or more loadables: the `loading` fallback, the `error` fallback, or `children`
+ * with the loaded values.
  *
  * @remarks
- * This lets you manually call `cleanupFunc()` to abort any in-flight request,
- * instead of waiting for an unmount or effect re-run.
- *
- * @returns A tuple: `[Loadable<T>, cleanupFunc]`.
+ * With several `values`, the first `LoadError` among them is rendered through `error`;
+ * otherwise `loading` is rendered until every value has loaded. Fallbacks not given here
+ * come from the nearest `<LoadableBoundary>`.
  *
  * @example
- * ```ts
- * const [userLoadable, cleanup] = useLoadableWithCleanup(fetchUser, [])
+ * ```tsx
+ * <Loaded value={user} loading={<Spinner />} error={e => <Banner e={e} />}>
+ *   {u => <h1>{u.name}</h1>}
+ * </Loaded>
  *
- * // Manually abort the current fetch:
- * cleanup()
+ * <Loaded values={[user, stats]} minLoadingTime={300}>
+ *   {(u, s) => <Dashboard user={u} stats={s} />}
+ * </Loaded>
  * ```
  *
  * @public
  */
-export function useLoadableWithCleanup<T, W, R>(
-    fetcherOrWaitable: Fetcher<T> | W,
-    depsOrReadyCondition: DependencyList | ((loaded: W) => boolean),
-    optionsOrFetcher?:
-        | UseLoadableOptions<T>
-        | ((loaded: W, abort: AbortSignal) => Promise<R>),
-    dependencies: DependencyList = [],
-    lastParam?: ((e: unknown) => void) | UseLoadableOptions<R>
-): [Loadable<T> | Loadable<R>, () => void] {
-    const [value, setValue] = useLatestState<Loadable<any>>(loading)
-    const abortControllerRef = useRef<AbortController | null>(null)
+export function Loaded(
+    props: LoadedProps<unknown> | LoadedAllProps<Loadable<unknown>[]>
+): ReactNode {
+    const boundary = useContext(LoadableBoundaryContext)
+    const loadingFallback = props.loading !== undefined ? props.loading : boundary.loading
+    const errorFallback = props.error !== undefined ? props.error : boundary.error
+    const minLoadingTime = props.minLoadingTime ?? boundary.minLoadingTime ?? 0
 
-    let isCase1 = false
-    let waitableVal: W | undefined
-    let readyFn: ((w: W) => boolean) | undefined
-    let actualFetcher: ((w: W, signal: AbortSignal) => Promise<any>) | undefined
-    let hideReload = false
-    let onErrorCb: ((e: unknown) => void) | undefined
-    let deps: DependencyList
-    let cacheObj = parseCacheOption()
+    const values = "values" in props ? props.values : [props.value]
+    const failure = values.find(loadFailed)
+    const showLoading = useMinLoadingTime(
+        !failure && values.some(isLoadingValue),
+        minLoadingTime
+    )
 
-    if (typeof depsOrReadyCondition === "function") {
-        // CASE 1
-        isCase1 = true
-        waitableVal = fetcherOrWaitable as W
-        readyFn = depsOrReadyCondition as (w: W) => boolean
-        actualFetcher = optionsOrFetcher as (w: W, signal: AbortSignal) => Promise<R>
-        deps = dependencies
-
-        if (typeof lastParam === "function") {
-            onErrorCb = lastParam
-        } else if (lastParam && typeof lastParam === "object") {
-            onErrorCb = lastParam.onError
-            hideReload = !!lastParam.hideReload
-            cacheObj = parseCacheOption(lastParam.cache)
+    if (failure) {
+        return typeof errorFallback === "function"
+            ? errorFallback(failure)
+            : (errorFallback ?? null)
+    }
+    if (showLoading) {
+        return loadingFallback ?? null
+    }
+    return "values" in props
+        ? props.children(...values)
+        : props.children(props.value)
+}
+
+// -------------------------------------------------------------------
+// Server-side rendering
+// -------------------------------------------------------------------
+
+/**
+ * The loads resolved during a server render, in a JSON-serializable form.
+ *
+ * @remarks
+ * Produced by `renderWithLoadables` on the server and passed to `hydrate` on the client.
+ * Entries are keyed by cache key, or by the hook's `useId()` for hooks without one.
+ *
+ * @public
+ */
+export interface DehydratedState {
+    /**
+     * The loaded values, with the time they were loaded.
+     */
+    entries: Record<string, CacheEntry<unknown>>
+    /**
+     * The messages of the loads that failed. They are refetched on the client.
+     */
+    errors: Record<string, string>
+}
+
+/**
+ * Collects the loads started by hooks while a server render is running.
+ *
+ * @internal
+ */
+class ServerRender {
+    /**
+     * Stands in for every built-in cache store during this render.
+     */
+    readonly store = new MemoryCacheStore()
+    /**
+     * Stands in for the module-wide request deduplication during this render.
+     */
+    readonly inFlightRequests = new Map<string, InFlightRequest>()
+    /**
+     * Stands in for the browser's suspense resources during this render.
+     */
+    readonly suspenseResources: SuspenseResources = new Map()
+    readonly settled = new Map<string, CacheEntry<unknown> | LoadError>()
+    readonly pending = new Map<string, Promise<void>>()
+    readonly controller = new AbortController()
+
+    /**
+     * Returns what was loaded for `key` in an earlier pass; otherwise starts loading it (once).
+     */
+    take<T>(
+        key: string,
+        ready: boolean,
+        fetch: (signal: AbortSignal) => Promise<T>
+    ): CacheEntry<T> | LoadError | undefined {
+        const settled = this.settled.get(key)
+        if (settled !== undefined) {
+            return settled as CacheEntry<T> | LoadError
         }
-    } else {
-        // CASE 2
-        const fetcher = fetcherOrWaitable as Fetcher<T>
-        deps = depsOrReadyCondition as DependencyList
-        const options = optionsOrFetcher as UseLoadableOptions<T> | undefined
-
-        onErrorCb = options?.onError
-        hideReload = !!options?.hideReload
-        cacheObj = parseCacheOption(options?.cache)
-        // always "ready"
-        readyFn = () => true
-
-        // The actual fetcher that either reads from cache or calls the original fetcher
-        actualFetcher = async (_ignored: W, signal: AbortSignal) => {
-            // Read from cache if possible
-            if (cacheObj.key) {
-                const cachedData = await readCache<T>(cacheObj.key, cacheObj.store)
-                if (cachedData !== undefined) {
-                    return cachedData
-                }
-            }
-            // If prefetched is available
-            if (options?.prefetched !== undefined) {
-                if (options.prefetched === loading) {
-                    return fetcher(signal)
-                } else if (options.prefetched instanceof LoadError) {
-                    throw options.prefetched
-                } else if (isLoadingValue(options.prefetched)) {
-                    return fetcher(signal)
-                } else {
-                    // T
-                    if (cacheObj.key) {
-                        await writeCache(cacheObj.key, options.prefetched, cacheObj.store)
+        if (ready && !this.pending.has(key)) {
+            this.pending.set(
+                key,
+                fetch(this.controller.signal).then(
+                    value => {
+                        this.settled.set(key, { value, timestamp: currentTimestamp() })
+                    },
+                    e => {
+                        this.settled.set(key, toLoadError(e))
                     }
-                    return options.prefetched
-                }
-            }
-            // Normal fetch
-            const data = await fetcher(signal)
-            if (cacheObj.key) {
-                await writeCache(cacheObj.key, data, cacheObj.store)
-            }
-            return data
+                )
+            )
         }
+        return undefined
     }
+}
 
-    useEffect(() => {
-        const startTime = currentTimestamp()
-        const isReady = readyFn?.(waitableVal as W) ?? true
+/**
+ * The server render in progress, if any. Only set while `render()` runs synchronously.
+ *
+ * @internal
+ */
+let activeServerRender: ServerRender | undefined
 
-        // If hideReload=false or current is not loaded, revert to 'loading'
-        if (!hideReload || !hasLoaded(value)) {
-            setValue(loading, startTime)
-        }
+/**
+ * Runs `run` as part of `server`, e.g. for work a render started that goes on after it returns.
+ *
+ * @remarks
+ * Only what `run` does synchronously sees the render. That's where cache stores and the
+ * request registry are picked, so a suspense load caching its result after the render
+ * still writes to the render's own store.
+ *
+ * @internal
+ */
+function inServerRender<T>(server: ServerRender | undefined, run: () => T): T {
+    const previous = activeServerRender
+    activeServerRender = server
+    try {
+        return run()
+    } finally {
+        activeServerRender = previous
+    }
+}
 
-        if (isReady && actualFetcher) {
-            abortControllerRef.current = new AbortController()
-            const signal = abortControllerRef.current.signal
+/**
+ * The options object for `renderWithLoadables`.
+ *
+ * @public
+ */
+export interface RenderWithLoadablesOptions {
+    /**
+     * How many times to render at most. Each pass renders with everything loaded so far,
+     * so a chain of `useThen`s needs one pass per step. Defaults to `10`.
+     */
+    maxPasses?: number
+}
 
-            currentlyLoading.add(startTime)
-            actualFetcher(waitableVal as W, signal)
-                .then(result => {
-                    setValue(result, startTime)
-                })
-                .catch(e => {
-                    onErrorCb?.(e)
-                    setValue(new LoadError(e), startTime)
-                })
-                .finally(() => {
-                    currentlyLoading.delete(startTime)
-                    if (
-                        currentlyLoading.size === 0 &&
-                        typeof window !== "undefined" &&
-                        "prerenderReady" in window
-                    ) {
-                        ;(window as any).prerenderReady = true
-                    }
-                })
-        }
+/**
+ * Renders on the server until every load has resolved, and dehydrates the results.
+ *
+ * @remarks
+ * Effects don't run on the server, so during `render` the hooks start their loads
+ * themselves. After each pass, every pending load (suspense hooks' included) is awaited and
+ * the tree is rendered again with the results, until a pass starts no new loads (or
+ * `maxPasses` is reached).
+ *
+ * `render` must render synchronously, e.g. `() => renderToString(<App />)`. While it
+ * runs, the built-in cache stores are replaced by a store private to this call, and
+ * nothing touches `window`, `localStorage` or IndexedDB. Requests and suspense loads are only
+ * shared within the call, so renders (for different users) never share one. Outside of a call,
+ * the built-in stores keep nothing on the server.
+ *
+ * @param render - Renders the tree, e.g. with `renderToString` from `react-dom/server`.
+ * @param options - Optional limits.
+ * @returns The output of the last pass, and the state to hand to `hydrate` on the client.
+ *
+ * @example
+ * ```tsx
+ * import { renderToString } from "react-dom/server"
+ *
+ * const { result: html, state } = await renderWithLoadables(() => renderToString(<App />))
+ * res.send(`
+ *   <div id="root">${html}</div>
+ *   <script>window.__LOADABLE_STATE__ = ${JSON.stringify(state).replace(/</g, "\\u003c")}</script>
+ * `)
+ * ```
+ *
+ * @public
+ */
+export async function renderWithLoadables<R>(
+    render: () => R,
+    options?: RenderWithLoadablesOptions
+): Promise<{ result: R; state: DehydratedState }> {
+    const maxPasses = options?.maxPasses ?? 10
+    const server = new ServerRender()
+    let result: R
 
-        return () => {
-            abortControllerRef.current?.abort()
-            currentlyLoading.delete(startTime)
+    for (let pass = 1; ; pass++) {
+        result = inServerRender(server, render)
+
+        // Suspended components render once their loads have settled too
+        const suspended = [...server.suspenseResources.values()]
+            .flat()
+            .filter(resource => resource.status === "pending")
+            .map(resource => resource.promise.catch(() => {}))
+        const pending = [...server.pending.values(), ...suspended]
+        server.pending.clear()
+        if (pending.length === 0 || pass >= maxPasses) break
+        await Promise.all(pending)
+    }
+    // Anything still loading after the last pass is left for the client
+    server.controller.abort()
+    server.suspenseResources.forEach(resources => resources.forEach(resource => resource.controller.abort()))
+
+    const state: DehydratedState = { entries: {}, errors: {} }
+    server.settled.forEach((settled, key) => {
+        if (settled instanceof LoadError) {
+            state.errors[key] = settled.message
+        } else {
+            state.entries[key] = settled
         }
-    }, [
-        isCase1,
-        waitableVal,
-        readyFn,
-        actualFetcher,
-        hideReload,
-        onErrorCb,
-        value,
-        setValue,
-        ...deps,
-    ])
-
-    /**
-     * Cancels any current request immediately. This is the second element
-     * in the returned tuple from `useLoadableWithCleanup`.
-     */
-    const cleanupFunc = useCallback(() => {
-        abortControllerRef.current?.abort()
-    }, [])
+    })
+    return { result, state }
+}
 
-    return [value, cleanupFunc]
-}
\ No newline at end of file
+/**
+ * Entries handed over by `hydrate`, waiting for the first render of their hook.
+ *
+ * @internal
+ */
+const hydratedEntries = new Map<string, CacheEntry<unknown> | LoadError>()
+
+/**
+ * Looks up what the server rendered for `key`.
+ *
+ * @internal
+ * @param once - Whether the entry is used up by this lookup (for keys that are only a tree position).
+ */
+function takeHydrated<T>(key: string, once: boolean): CacheEntry<T> | LoadError | undefined {
+    const entry = hydratedEntries.get(key) as CacheEntry<T> | LoadError | undefined
+    if (once) {
+        hydratedEntries.delete(key)
+    }
+    return entry
+}
+
+/**
+ * Seeds the client with the state dehydrated by `renderWithLoadables`, so that the first
+ * render shows the server's data instead of `loading`.
+ *
+ * @remarks
+ * Call it before `hydrateRoot`. Hooks without a cache key are matched by their `useId()`,
+ * which only lines up with the server when hydrating (not with `createRoot`).
+ *
+ * Hydrated values count as cache entries: they're kept while fresh (see `staleTime`) and
+ * revalidated in the background once stale. Failed server loads are refetched.
+ *
+ * @param state - The state returned by `renderWithLoadables`.
+ *
+ * @example
+ * ```tsx
+ * hydrate(window.__LOADABLE_STATE__)
+ * hydrateRoot(document.getElementById("root")!, <App />)
+ * ```
+ *
+ * @public
+ */
+export function hydrate(state: DehydratedState): void {
+    Object.entries(state.entries).forEach(([key, entry]) => {
+        hydratedEntries.set(key, entry)
+    })
+    Object.entries(state.errors).forEach(([key, message]) => {
+        hydratedEntries.set(key, new LoadError(message, message))
+    })
+}
@@ -0,0 +1,392 @@
+import { act } from "react"
+import {
+    CacheEntry,
+    CacheStore,
+    currentTimestamp,
+    Fetcher,
+    isLoadingValue,
+    Loadable,
+    Loaded,
+    LoadError,
+    LoadProgress,
+    ProgressReporter,
+    setClock,
+    TimeStamp,
+} from "./loadable"
+
+// -------------------------------------------------------------------
+// Controllable fetchers
+// -------------------------------------------------------------------
+
+/**
+ * One call made to a `ControllableFetcher`, which stays pending until you settle it.
+ *
+ * @public
+ */
+export interface FetchCall<T> {
+    /**
+     * The signal the hook passed in.
+     */
+    readonly signal: AbortSignal
+    /**
+     * Whether the hook has aborted this call.
+     */
+    readonly aborted: boolean
+    /**
+     * Whether this call has been resolved or rejected.
+     */
+    readonly settled: boolean
+    /**
+     * Resolves this call with `value`.
+     */
+    resolve(value: T): void
+    /**
+     * Rejects this call with `error`.
+     */
+    reject(error: unknown): void
+    /**
+     * Reports progress on this call, as the fetcher's `onProgress` would (inside `act`).
+     */
+    progress(progress: LoadProgress | number): void
+}
+
+/**
+ * A fetcher whose calls stay pending until the test settles them.
+ *
+ * @public
+ */
+export interface ControllableFetcher<T> extends Fetcher<T> {
+    /**
+     * Every call made so far, oldest first.
+     */
+    readonly calls: FetchCall<T>[]
+    /**
+     * The most recent call, if any.
+     */
+    readonly lastCall: FetchCall<T> | undefined
+    /**
+     * Resolves the most recent call. Throws if there is none.
+     */
+    resolve(value: T): void
+    /**
+     * Rejects the most recent call. Throws if there is none.
+     */
+    reject(error: unknown): void
+}
+
+/**
+ * Creates a fetcher whose calls stay pending until you resolve or reject them.
+ *
+ * @remarks
+ * A call rejects with the abort reason as soon as its signal aborts, like `fetch` does.
+ * For `useThen`-style fetchers, wrap it: `(value, signal, onProgress) => fetcher(signal, onProgress)`.
+ *
+ * @example
+ * ```ts
+ * const fetchUser = createControllableFetcher<User>()
+ * const { result } = renderHook(() => useLoadable(fetchUser, []))
+ *
+ * await waitFor(() => expect(fetchUser.calls).toHaveLength(1))
+ * fetchUser.resolve({ name: "Ada" })
+ * expect(await waitForLoaded(result)).toEqual({ name: "Ada" })
+ * ```
+ *
+ * @public
+ */
+export function createControllableFetcher<T>(): ControllableFetcher<T> {
+    const calls: FetchCall<T>[] = []
+
+    const fetcher = (signal: AbortSignal, onProgress?: ProgressReporter): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            let settled = false
+            const settle = (fn: () => void) => {
+                if (settled) return
+                settled = true
+                signal.removeEventListener("abort", onAbort)
+                fn()
+            }
+            const onAbort = () => settle(() => reject(signal.reason))
+            signal.addEventListener("abort", onAbort, { once: true })
+
+            calls.push({
+                signal,
+                get aborted() {
+                    return signal.aborted
+                },
+                get settled() {
+                    return settled
+                },
+                resolve: value => settle(() => resolve(value)),
+                reject: error => settle(() => reject(error)),
+                progress: progress => {
+                    // The hook updates its state synchronously
+                    if (!settled) act(() => onProgress?.(progress))
+                },
+            })
+        })
+
+    function lastCall(): FetchCall<T> {
+        const call = calls[calls.length - 1]
+        if (!call) throw new Error("The fetcher hasn't been called yet")
+        return call
+    }
+
+    // `Object.assign` would read `lastCall` once instead of copying the getter
+    Object.defineProperties(fetcher, {
+        calls: { value: calls },
+        lastCall: { get: () => calls[calls.length - 1] },
+        resolve: { value: (value: T) => lastCall().resolve(value) },
+        reject: { value: (error: unknown) => lastCall().reject(error) },
+    })
+    return fetcher as ControllableFetcher<T>
+}
+
+// -------------------------------------------------------------------
+// Fake clock
+// -------------------------------------------------------------------
+
+/**
+ * A clock standing in for `currentTimestamp`, which only moves when told to.
+ *
+ * @public
+ */
+export interface FakeClock {
+    /**
+     * The current fake time.
+     */
+    readonly now: TimeStamp
+    /**
+     * Moves the clock forward by `ms` milliseconds.
+     */
+    advance(ms: number): void
+    /**
+     * Sets the clock to `time`.
+     */
+    set(time: TimeStamp): void
+    /**
+     * Puts the real clock back.
+     */
+    uninstall(): void
+}
+
+/**
+ * Replaces `currentTimestamp` with a clock that only moves when you advance it.
+ *
+ * @remarks
+ * Cache entries age by this clock, so with a frozen one `staleTime` / `maxAge` only elapse when
+ * you `advance()` past them. Loads are ordered by it too, but loads started at the same time
+ * aren't ordered at all: whichever settles last wins. `advance()` between loads whose order matters.
+ *
+ * Timers (retry delays, timeouts, polling) aren't affected; use your test runner's fake timers for those.
+ *
+ * @param start - The initial time. Defaults to `1`.
+ *
+ * @example
+ * ```ts
+ * const clock = installFakeClock()
+ * afterEach(() => clock.uninstall())
+ *
+ * clock.advance(60_000) // a minute later: entries with a one-minute staleTime are now stale
+ * ```
+ *
+ * @public
+ */
+export function installFakeClock(start: TimeStamp = 1): FakeClock {
+    let now = start
+    setClock(() => now)
+    return {
+        get now() {
+            return now
+        },
+        advance: ms => {
+            now += ms
+        },
+        set: time => {
+            now = time
+        },
+        uninstall: () => setClock(),
+    }
+}
+
+// -------------------------------------------------------------------
+// Fake cache store
+// -------------------------------------------------------------------
+
+/**
+ * An in-memory `CacheStore` whose contents a test can seed, inspect and make fail.
+ *
+ * @remarks
+ * Use a fresh one per test (e.g. `cache: { key: "user", store }`), so nothing leaks between tests.
+ *
+ * @example
+ * ```ts
+ * const store = new FakeCacheStore()
+ * store.seed("user", { name: "Ada" })
+ *
+ * const { result } = renderHook(() => useLoadable(fetchUser, [], { cache: { key: "user", store } }))
+ * // The cache is read asynchronously, so the entry only shows up after a render
+ * expect(await waitForLoaded(result)).toEqual({ name: "Ada" })
+ * ```
+ *
+ * @public
+ */
+export class FakeCacheStore implements CacheStore {
+    /**
+     * Everything stored, by key.
+     */
+    readonly entries = new Map<string, CacheEntry<unknown>>()
+    /**
+     * Every write so far, oldest first.
+     */
+    readonly writes: { key: string; entry: CacheEntry<unknown> }[] = []
+    /**
+     * If set, every operation rejects with this error.
+     */
+    failWith: unknown = undefined
+
+    /**
+     * Stores `value` under `key` directly, as if it had been cached at `timestamp`.
+     *
+     * @param key - The cache key.
+     * @param value - The value to store.
+     * @param timestamp - When it was cached. Defaults to `currentTimestamp()`.
+     */
+    seed<T>(key: string, value: T, timestamp: TimeStamp = currentTimestamp()): void {
+        this.entries.set(key, { value, timestamp })
+    }
+
+    async get(key: string): Promise<CacheEntry<unknown> | undefined> {
+        this.check()
+        return this.entries.get(key)
+    }
+
+    async set(key: string, entry: CacheEntry<unknown>): Promise<void> {
+        this.check()
+        this.writes.push({ key, entry })
+        this.entries.set(key, entry)
+    }
+
+    async delete(key: string): Promise<void> {
+        this.check()
+        this.entries.delete(key)
+    }
+
+    async keys(): Promise<string[]> {
+        this.check()
+        return [...this.entries.keys()]
+    }
+
+    async clear(): Promise<void> {
+        this.check()
+        this.entries.clear()
+    }
+
+    private check() {
+        if (this.failWith !== undefined) throw this.failWith
+    }
+}
+
+// -------------------------------------------------------------------
+// Waiting for loads
+// -------------------------------------------------------------------
+
+/**
+ * Options for `waitForLoaded` and `waitForSettled`.
+ *
+ * @public
+ */
+export interface WaitForOptions {
+    /**
+     * How long to wait before giving up, in milliseconds. Defaults to `1000`.
+     */
+    timeout?: number
+    /**
+     * How often to check, in milliseconds. Defaults to `10`.
+     */
+    interval?: number
+}
+
+/**
+ * Where to read a loadable from: a `renderHook` result (or any ref), or a getter.
+ *
+ * @public
+ */
+export type LoadableSource<T> = { readonly current: Loadable<T> } | (() => Loadable<T>)
+
+/**
+ * Jest's `jest` object, which Jest hands to every module it runs.
+ *
+ * @internal
+ */
+declare const jest: { advanceTimersByTime(ms: number): void } | undefined
+
+/**
+ * Returns `jest` if the test has enabled Jest's fake timers.
+ *
+ * @internal
+ */
+function jestFakeTimers(): { advanceTimersByTime(ms: number): void } | undefined {
+    if (typeof jest === "undefined" || !jest) return undefined
+    // Legacy fake timers mock `setTimeout`; modern ones attach their clock to it
+    const faked =
+        (setTimeout as { _isMockFunction?: boolean })._isMockFunction === true ||
+        Object.prototype.hasOwnProperty.call(setTimeout, "clock")
+    return faked ? jest : undefined
+}
+
+/**
+ * Waits, inside React's `act`, until a loadable is no longer loading.
+ *
+ * @remarks
+ * Under Jest's fake timers, it advances them by `interval` between checks instead of waiting,
+ * so retry delays and the like elapse, and `timeout` counts fake time (with modern fake timers).
+ *
+ * @param source - A `renderHook` result, a ref, or a getter returning the loadable.
+ * @param options - How long to wait, and how often to check.
+ * @returns The loaded value or the `LoadError`. Rejects if it's still loading after `timeout`.
+ *
+ * @public
+ */
+export async function waitForSettled<T>(
+    source: LoadableSource<T>,
+    { timeout = 1000, interval = 10 }: WaitForOptions = {}
+): Promise<Loaded<T> | LoadError> {
+    const read = typeof source === "function" ? source : () => source.current
+    const deadline = Date.now() + timeout
+    for (;;) {
+        const current = read()
+        if (!isLoadingValue(current)) return current as Loaded<T> | LoadError
+        if (Date.now() >= deadline) {
+            throw new Error(`Still loading after ${timeout}ms`)
+        }
+        // Let pending fetches, effects and state updates run
+        const fakeTimers = jestFakeTimers()
+        if (fakeTimers) {
+            // A real wait would never end, as fake timers only fire when advanced
+            await act(async () => fakeTimers.advanceTimersByTime(interval))
+        } else {
+            await act(() => new Promise<void>(resolve => setTimeout(resolve, interval)))
+        }
+    }
+}
+
+/**
+ * Waits, inside React's `act`, until a loadable has loaded.
+ *
+ * @param source - A `renderHook` result, a ref, or a getter returning the loadable.
+ * @param options - How long to wait, and how often to check.
+ * @returns The loaded value. Rejects with the `LoadError` if the load fails, or if it's still loading after `timeout`.
+ *
+ * @example
+ * ```ts
+ * const { result } = renderHook(() => useLoadable(fetchUser, []))
+ * expect(await waitForLoaded(result)).toEqual({ name: "Ada" })
+ * ```
+ *
+ * @public
+ */
+export async function waitForLoaded<T>(source: LoadableSource<T>, options?: WaitForOptions): Promise<Loaded<T>> {
+    const settled = await waitForSettled(source, options)
+    if (settled instanceof LoadError) throw settled
+    return settled
+}